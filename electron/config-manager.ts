@@ -1,123 +1,651 @@
 import { app, safeStorage } from 'electron'
 import { randomUUID } from 'crypto'
-import { existsSync, mkdirSync, readFileSync, writeFileSync, chmodSync } from 'fs'
+import { existsSync, mkdirSync, readFileSync, writeFileSync, chmodSync, unlinkSync } from 'fs'
 import { join } from 'path'
+import { stringify as stringifyToml, type TomlTable } from 'smol-toml'
+import type { ConfigFormat } from './frpc-binary'
+import type { FrpcConfigImport } from './frpc-import'
+
+export type TunnelType = 'tcp' | 'udp' | 'http' | 'https' | 'stcp' | 'sudp' | 'xtcp'
+
+export interface TunnelTransport {
+  useEncryption?: boolean
+  useCompression?: boolean
+  bandwidthLimit?: string               // e.g. "1MB" or "512KB"
+  bandwidthLimitMode?: 'client' | 'server'
+  proxyProtocolVersion?: 'v1' | 'v2'    // Pass the real client IP to the local service
+}
 
 export interface Tunnel {
   id: string
   name: string
-  type: 'tcp'
+  type: TunnelType
   localIP: string
   localPort: number
-  remotePort: number
+  remotePort: number        // Unused (0) for virtual-host and secret tunnels
+  enabled: boolean
+  // Virtual-host routing (http/https)
+  customDomains?: string[]
+  subdomain?: string
+  // HTTP-only options (https tunnels pass TLS through to the local service untouched)
+  locations?: string[]
+  hostHeaderRewrite?: string
+  httpUser?: string
+  httpPassword?: string
+  requestHeaders?: Record<string, string>
+  // Secret tunnels (stcp/sudp/xtcp), reachable only through a matching visitor
+  secretKey?: string
+  allowUsers?: string[]
+  transport?: TunnelTransport
+  plugin?: TunnelPlugin     // When set, localIP/localPort are ignored
+  healthCheck?: TunnelHealthCheck
+  loadBalancer?: TunnelLoadBalancer
+  waitForLocalService?: boolean // Leave out of frpc's config until localIP:localPort accepts connections
+  verifyOnStart?: boolean       // Check serverAddr:remotePort end to end once frpc starts the tunnel
+}
+
+// frpc client plugins serve a tunnel from inside frpc instead of forwarding to localIP:localPort
+export type TunnelPlugin =
+  | { type: 'static_file'; localPath: string; stripPrefix?: string; httpUser?: string; httpPassword?: string }
+  | { type: 'socks5'; username?: string; password?: string }
+  | { type: 'http_proxy'; httpUser?: string; httpPassword?: string }
+  | { type: 'unix_domain_socket'; unixPath: string }
+  | { type: 'https2http' | 'https2https'; localAddr: string; crtPath?: string; keyPath?: string; hostHeaderRewrite?: string }
+
+export type TunnelPluginType = TunnelPlugin['type']
+
+// frpc probes the local service and removes the proxy from frps while it is unhealthy
+export interface TunnelHealthCheck {
+  type: 'tcp' | 'http'
+  path?: string             // http only
+  intervalSeconds?: number
+  timeoutSeconds?: number
+  maxFailed?: number
+}
+
+// frps balances connections across proxies that join the same group with the same key
+export interface TunnelLoadBalancer {
+  group: string
+  groupKey: string
+}
+
+export type VisitorType = 'stcp' | 'sudp' | 'xtcp'
+
+// Local end of a secret tunnel published by another frpc
+export interface Visitor {
+  id: string
+  name: string
+  type: VisitorType
+  serverName: string        // Name of the secret tunnel to connect to
+  serverUser?: string       // frpc user that owns it, if not ours
+  secretKey: string
+  bindAddr: string
+  bindPort: number
   enabled: boolean
+  // xtcp only: fall back to an stcp visitor if hole punching fails
+  fallbackTo?: string
+  fallbackTimeoutMs?: number
 }
 
-export interface AppConfig {
+export type TransportProtocol = 'tcp' | 'kcp' | 'quic' | 'websocket' | 'wss'
+
+// TLS between frpc and frps (frpc `transport.tls.*`)
+export interface ServerTLS {
+  enable: boolean
+  certFile?: string
+  keyFile?: string
+  trustedCaFile?: string    // When set, the frps certificate is verified against it
+  serverName?: string
+  disableCustomTLSFirstByte?: boolean // Unset keeps frpc's default: true from 0.50, false before
+}
+
+export type ProxyType = 'http' | 'socks5' | 'ntlm'
+
+// Proxy that frpc dials frps through (frpc `transport.proxyURL`)
+export interface OutboundProxy {
+  type: ProxyType
+  host: string
+  port: number
+  username?: string
+  password?: string
+}
+
+// How frpc reaches frps (frpc `transport.*`). Unset values keep frpc's defaults
+export interface ServerTransport {
+  protocol: TransportProtocol
+  proxy?: OutboundProxy
+  tcpMux?: boolean
+  poolCount?: number
+  heartbeatInterval?: number  // Seconds, -1 disables heartbeats
+  heartbeatTimeout?: number
+  tls: ServerTLS
+}
+
+export type AuthMethod = 'token' | 'oidc'
+
+// Messages besides login that carry the auth credential
+export type AuthScope = 'HeartBeats' | 'NewWorkConns'
+
+// OIDC client credentials flow (frpc `auth.oidc.*`)
+export interface OidcAuth {
+  clientId: string
+  clientSecret: string
+  audience?: string
+  scope?: string
+  tokenEndpointURL: string
+}
+
+// A named frps connection with its own credentials, port range and tunnels
+export interface ServerProfile {
+  id: string
+  name: string
   serverAddr: string
   serverPort: number
-  authToken: string
+  authMethod: AuthMethod
+  authToken: string         // token method only
+  oidc: OidcAuth            // oidc method only
+  authAdditionalScopes?: AuthScope[]
   remotePortMin: number
   remotePortMax: number
-  autoStart: boolean
+  // frps vhost settings, used to display the public URL of http/https tunnels
+  subDomainHost: string
+  vhostHTTPPort: number
+  vhostHTTPSPort: number
+  transport: ServerTransport
   tunnels: Tunnel[]
+  visitors: Visitor[]
+}
+
+// frpc's local admin API, enabled on a random port while the GUI runs frpc
+export interface AdminServer {
+  port: number
+  user: string
+  password: string
+}
+
+// A generated frpc config on disk and the environment frpc needs to expand its secrets
+export interface FrpcConfigFile {
+  path: string
+  content: string
+  env: Record<string, string>
+}
+
+// How frpc is restarted after it exits on its own. The delay before attempt k is
+// baseDelaySeconds * multiplier^(k-1), capped at maxDelaySeconds and randomized by +/- jitter
+export interface ReconnectPolicy {
+  enabled: boolean
+  baseDelaySeconds: number
+  multiplier: number
+  maxDelaySeconds: number
+  jitter: number              // Fraction of the delay, 0 to 1
+  maxAttempts: number         // 0 retries forever
+  stableUptimeSeconds: number // Running this long counts as recovered and resets the attempts
+}
+
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  enabled: true,
+  baseDelaySeconds: 5,
+  multiplier: 2,
+  maxDelaySeconds: 300,
+  jitter: 0.2,
+  maxAttempts: 5,
+  stableUptimeSeconds: 60
 }
 
+export function validateReconnectPolicy(policy: ReconnectPolicy): string[] {
+  const errors: string[] = []
+  if (!(policy.baseDelaySeconds >= 1)) {
+    errors.push('Reconnect delay must be at least 1 second')
+  }
+  if (!(policy.multiplier >= 1)) {
+    errors.push('Backoff multiplier must be at least 1')
+  }
+  if (!(policy.maxDelaySeconds >= policy.baseDelaySeconds)) {
+    errors.push('Maximum reconnect delay cannot be shorter than the first delay')
+  }
+  if (!(policy.jitter >= 0 && policy.jitter <= 1)) {
+    errors.push('Jitter must be between 0 and 100%')
+  }
+  if (!(Number.isInteger(policy.maxAttempts) && policy.maxAttempts >= 0)) {
+    errors.push('Reconnect attempts must be a whole number, 0 for unlimited')
+  }
+  if (!(policy.stableUptimeSeconds >= 0)) {
+    errors.push('Stable uptime cannot be negative')
+  }
+  return errors
+}
+
+export interface ProfileSummary {
+  id: string
+  name: string
+  serverAddr: string
+}
+
+// The active profile's settings, flattened, plus app-wide settings
+export interface AppConfig extends Omit<ServerProfile, 'id' | 'name'> {
+  activeProfileId: string
+  profiles: ProfileSummary[]
+  autoStart: boolean
+  reconnect: ReconnectPolicy
+}
+
+type ProfileSettings = Omit<ServerProfile, 'id' | 'name'>
+
+const PROFILE_SETTING_KEYS: (keyof ProfileSettings)[] = [
+  'serverAddr', 'serverPort', 'authMethod', 'authToken', 'oidc', 'authAdditionalScopes', 'remotePortMin', 'remotePortMax',
+  'subDomainHost', 'vhostHTTPPort', 'vhostHTTPSPort', 'transport', 'tunnels', 'visitors'
+]
+
+export function isVhostTunnel(tunnel: Pick<Tunnel, 'type'>): boolean {
+  return tunnel.type === 'http' || tunnel.type === 'https'
+}
+
+// Plugins each expect a specific kind of proxy in front of them
+export function pluginTypesFor(tunnelType: TunnelType): TunnelPluginType[] {
+  switch (tunnelType) {
+    case 'tcp':
+    case 'stcp':
+    case 'xtcp':
+      return ['static_file', 'socks5', 'http_proxy', 'unix_domain_socket']
+    case 'https':
+      return ['https2http', 'https2https']
+    default:
+      return []
+  }
+}
+
+export function supportsLoadBalancing(tunnel: Pick<Tunnel, 'type'>): boolean {
+  return tunnel.type === 'tcp' || tunnel.type === 'http'
+}
+
+// Load-balancer group members legitimately share a remote port or domain, so count each group once
+function groupAwareKeys(tunnels: Tunnel[], keysOf: (tunnel: Tunnel) => string[]): string[] {
+  const keys: string[] = []
+  const seen = new Set<string>()
+  for (const tunnel of tunnels) {
+    for (const key of keysOf(tunnel)) {
+      const group = tunnel.loadBalancer?.group
+      if (group) {
+        if (seen.has(`${group}|${key}`)) {
+          continue
+        }
+        seen.add(`${group}|${key}`)
+      }
+      keys.push(key)
+    }
+  }
+  return keys
+}
+
+// frp only prepends PROXY protocol headers to stream connections
+export function supportsProxyProtocol(tunnel: Pick<Tunnel, 'type'>): boolean {
+  return tunnel.type !== 'udp' && tunnel.type !== 'sudp'
+}
+
+// Credentials go in the userinfo part, so they must be percent-encoded
+export function formatProxyURL(proxy: OutboundProxy): string {
+  let auth = ''
+  if (proxy.username) {
+    auth = encodeURIComponent(proxy.username)
+    if (proxy.password) {
+      auth += `:${encodeURIComponent(proxy.password)}`
+    }
+    auth += '@'
+  }
+  return `${proxy.type}://${auth}${proxy.host}:${proxy.port}`
+}
+
+export function isSecretTunnel(tunnel: Pick<Tunnel, 'type'>): boolean {
+  return tunnel.type === 'stcp' || tunnel.type === 'sudp' || tunnel.type === 'xtcp'
+}
+
+// frps rejects proxy and visitor names with anything else
+export const NAME_PATTERN = /^[A-Za-z0-9_.-]+$/
+
+// The legacy INI format is line based, so a line break in a value, or "[", "]" or "=" in a
+// user-chosen key (request header names), would start another setting or section
+function unsafeIniFields(value: unknown, path: string): string[] {
+  if (typeof value === 'string') {
+    return /[\r\n]/.test(value) ? [`${path} cannot contain line breaks`] : []
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(item => unsafeIniFields(item, path))
+  }
+  if (value && typeof value === 'object') {
+    return Object.entries(value).flatMap(([key, item]) => [
+      ...(/[\r\n[\]=]/.test(key) ? [`${path} "${key}" cannot contain line breaks, "[", "]" or "="`] : []),
+      ...unsafeIniFields(item, path ? `${path}.${key}` : key)
+    ])
+  }
+  return []
+}
+
+// Replaces a secret in the generated config: with a placeholder in the Settings preview, or
+// with an frpc env template when writing the file. Server credentials and tunnel secrets are told
+// apart so the former can be revealed in the preview; `name` is unique per secret in a profile
+type SecretMask = (secret: string, scope: 'server' | 'tunnel', name: string) => string
+
+// Env-safe name for a secret of a tunnel or visitor, stable across edits and reordering
+function entrySecretName(id: string, field: string): string {
+  return `${id.replace(/[^A-Za-z0-9]/g, '_').toUpperCase()}_${field}`
+}
+
+// Masks the encoded password after formatting so the mask itself isn't percent-encoded
+function maskedProxyURL(proxy: OutboundProxy, mask: SecretMask): string {
+  const url = formatProxyURL(proxy)
+  if (!proxy.password) {
+    return url
+  }
+  const password = encodeURIComponent(proxy.password)
+  return url.replace(`:${password}@`, `:${mask(password, 'server', 'PROXY_PASSWORD')}@`)
+}
+
+// Drops unset options so they are left out of the TOML instead of failing to serialize
+function compactTable(values: Record<string, unknown>): TomlTable {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined)) as TomlTable
+}
+
+// Secret keys and passwords are stored encrypted, like the auth token
+type StoredTunnel = Omit<Tunnel, 'secretKey' | 'httpPassword'> & {
+  encryptedSecretKey?: string
+  secretKey?: string       // Legacy plain text (will be migrated)
+  encryptedHttpPassword?: string
+  httpPassword?: string    // Legacy plain text (will be migrated)
+  encryptedPluginPassword?: string // The plugin's own password field holds legacy plain text
+  encryptedGroupKey?: string       // loadBalancer.groupKey holds legacy plain text
+}
+
+// The password a plugin carries: basic auth for static_file/http_proxy, socks5's own
+function pluginPassword(plugin?: TunnelPlugin): string | undefined {
+  switch (plugin?.type) {
+    case 'static_file':
+    case 'http_proxy':
+      return plugin.httpPassword
+    case 'socks5':
+      return plugin.password
+  }
+  return undefined
+}
+
+function withPluginPassword(plugin: TunnelPlugin | undefined, password: string | undefined): TunnelPlugin | undefined {
+  switch (plugin?.type) {
+    case 'static_file':
+    case 'http_proxy':
+      return { ...plugin, httpPassword: password }
+    case 'socks5':
+      return { ...plugin, password }
+  }
+  return plugin
+}
+
+type StoredVisitor = Omit<Visitor, 'secretKey'> & {
+  encryptedSecretKey?: string
+  secretKey?: string       // Legacy plain text (will be migrated)
+}
+
+// The proxy password is stored encrypted, like the auth token
+type StoredProxy = Omit<OutboundProxy, 'password'> & { encryptedPassword?: string }
+
+type StoredTransport = Omit<ServerTransport, 'proxy'> & { proxy?: StoredProxy }
+
 // Internal storage format with encrypted token
-interface StoredConfig {
+interface StoredProfile {
+  id: string
+  name: string
   serverAddr: string
   serverPort: number
+  authMethod?: AuthMethod
   encryptedToken?: string  // Base64 encoded encrypted token
   authToken?: string       // Legacy plain text (will be migrated)
+  oidc?: Omit<OidcAuth, 'clientSecret'> & { encryptedClientSecret?: string }
+  authAdditionalScopes?: AuthScope[]
   remotePortMin: number
   remotePortMax: number
+  subDomainHost?: string
+  vhostHTTPPort?: number
+  vhostHTTPSPort?: number
+  transport?: StoredTransport
+  tunnels: StoredTunnel[]
+  visitors?: StoredVisitor[]
+}
+
+interface StoredConfig {
+  activeProfileId?: string
+  profiles?: StoredProfile[]
   autoStart: boolean
-  tunnels: Tunnel[]
+  frpcPath?: string
+  reconnect?: Partial<ReconnectPolicy>
 }
 
-const DEFAULT_CONFIG: AppConfig = {
+// Before profiles existed, the single server's settings lived at the top level
+type LegacyStoredConfig = StoredConfig & Partial<Omit<StoredProfile, 'id' | 'name'>>
+
+const DEFAULT_PROFILE: Omit<ServerProfile, 'id'> = {
+  name: 'Default',
   serverAddr: '',
   serverPort: 7000,
+  authMethod: 'token',
   authToken: '',
+  oidc: { clientId: '', clientSecret: '', tokenEndpointURL: '' },
   remotePortMin: 6000,
   remotePortMax: 6100,
-  autoStart: false,
-  tunnels: []
+  subDomainHost: '',
+  vhostHTTPPort: 80,
+  vhostHTTPSPort: 443,
+  transport: { protocol: 'tcp', tls: { enable: true } },
+  tunnels: [],
+  visitors: []
 }
 
 export class ConfigManager {
   private configDir: string
   private configPath: string
-  private frpcConfigPath: string
-  private config: AppConfig
+  private profiles: ServerProfile[] = []
+  private activeProfileId: string = ''
+  private autoStart: boolean = false
+  // Custom frpc binary picked in Settings, empty to search the usual locations
+  private frpcPath: string = ''
+  private reconnectPolicy: ReconnectPolicy = DEFAULT_RECONNECT_POLICY
 
   constructor() {
     this.configDir = join(app.getPath('userData'), 'config')
     this.configPath = join(this.configDir, 'config.json')
-    this.frpcConfigPath = join(this.configDir, 'frpc.toml')
 
     // Ensure config directory exists
     if (!existsSync(this.configDir)) {
       mkdirSync(this.configDir, { recursive: true })
     }
 
-    this.config = this.loadConfig()
+    this.loadConfig()
+  }
+
+  // The profile the app is currently connected to / editing
+  private get profile(): ServerProfile {
+    return this.profiles.find(p => p.id === this.activeProfileId) || this.profiles[0]
   }
 
-  private loadConfig(): AppConfig {
+  private getProfile(id?: string): ServerProfile {
+    if (!id) {
+      return this.profile
+    }
+    const profile = this.profiles.find(p => p.id === id)
+    if (!profile) {
+      throw new Error(`Profile with id ${id} not found`)
+    }
+    return profile
+  }
+
+  private loadConfig(): void {
     try {
       if (existsSync(this.configPath)) {
         const data = readFileSync(this.configPath, 'utf-8')
-        const stored: StoredConfig = JSON.parse(data)
-
-        // Decrypt token if encrypted, otherwise use legacy plain text
-        let authToken = ''
-        if (stored.encryptedToken && safeStorage.isEncryptionAvailable()) {
-          try {
-            const encrypted = Buffer.from(stored.encryptedToken, 'base64')
-            authToken = safeStorage.decryptString(encrypted)
-          } catch {
-            console.error('Failed to decrypt token, using empty')
-          }
-        } else if (stored.authToken) {
-          // Migrate legacy plain text token
-          authToken = stored.authToken
-        }
+        const stored: LegacyStoredConfig = JSON.parse(data)
 
-        return {
-          ...DEFAULT_CONFIG,
+        // Migrate a pre-profiles config into a single default profile
+        const storedProfiles = stored.profiles || [{
+          ...stored,
+          id: randomUUID(),
+          name: DEFAULT_PROFILE.name,
           serverAddr: stored.serverAddr || '',
           serverPort: stored.serverPort || 7000,
-          authToken,
           remotePortMin: stored.remotePortMin || 6000,
           remotePortMax: stored.remotePortMax || 6100,
-          autoStart: stored.autoStart || false,
           tunnels: stored.tunnels || []
-        }
+        }]
+
+        this.profiles = storedProfiles.map(p => this.loadProfile(p))
+        this.activeProfileId = stored.activeProfileId || this.profiles[0]?.id || ''
+        this.autoStart = stored.autoStart || false
+        this.frpcPath = stored.frpcPath || ''
+        this.reconnectPolicy = { ...DEFAULT_RECONNECT_POLICY, ...stored.reconnect }
       }
     } catch (error) {
       console.error('Failed to load config:', error)
     }
-    return { ...DEFAULT_CONFIG }
+
+    if (this.profiles.length === 0) {
+      this.profiles = [{ ...DEFAULT_PROFILE, id: randomUUID() }]
+      this.activeProfileId = this.profiles[0].id
+    }
+
+    this.removeLegacyFrpcConfig()
   }
 
-  private saveConfigToFile(): void {
+  // Before profiles, frpc ran from a single frpc.toml with the secrets written out in it.
+  // Nothing reads it any more, so it would only keep the token on disk
+  private removeLegacyFrpcConfig(): void {
+    const legacyPath = join(this.configDir, 'frpc.toml')
     try {
-      // Encrypt token if available
-      let encryptedToken: string | undefined
-      if (this.config.authToken && safeStorage.isEncryptionAvailable()) {
-        const encrypted = safeStorage.encryptString(this.config.authToken)
-        encryptedToken = encrypted.toString('base64')
+      if (existsSync(legacyPath)) {
+        unlinkSync(legacyPath)
       }
+    } catch (error) {
+      console.error('Failed to remove legacy frpc.toml:', error)
+    }
+  }
+
+  private loadProfile(stored: StoredProfile): ServerProfile {
+    // Decrypt token if encrypted, otherwise use legacy plain text
+    const authToken = this.decryptSecret(stored.encryptedToken, stored.authToken)
+    const { encryptedClientSecret, ...oidc } = stored.oidc || { clientId: '', tokenEndpointURL: '' }
+
+    const tunnels = (stored.tunnels || []).map(tunnel => this.loadTunnel(tunnel))
+    const visitors = (stored.visitors || []).map(({ encryptedSecretKey, secretKey, ...visitor }): Visitor => ({
+      ...visitor,
+      secretKey: this.decryptSecret(encryptedSecretKey, secretKey)
+    }))
+
+    return {
+      ...DEFAULT_PROFILE,
+      id: stored.id,
+      name: stored.name || DEFAULT_PROFILE.name,
+      serverAddr: stored.serverAddr || '',
+      serverPort: stored.serverPort || 7000,
+      authMethod: stored.authMethod || 'token',
+      authToken,
+      oidc: {
+        ...DEFAULT_PROFILE.oidc,
+        ...oidc,
+        clientSecret: this.decryptSecret(encryptedClientSecret)
+      },
+      authAdditionalScopes: stored.authAdditionalScopes,
+      remotePortMin: stored.remotePortMin || 6000,
+      remotePortMax: stored.remotePortMax || 6100,
+      subDomainHost: stored.subDomainHost || '',
+      vhostHTTPPort: stored.vhostHTTPPort || 80,
+      vhostHTTPSPort: stored.vhostHTTPSPort || 443,
+      transport: {
+        ...DEFAULT_PROFILE.transport,
+        ...stored.transport,
+        tls: { ...DEFAULT_PROFILE.transport.tls, ...stored.transport?.tls },
+        proxy: stored.transport?.proxy && this.loadProxy(stored.transport.proxy)
+      },
+      tunnels,
+      visitors
+    }
+  }
+
+  private decryptSecret(encryptedValue?: string, legacyValue?: string): string {
+    if (encryptedValue && safeStorage.isEncryptionAvailable()) {
+      try {
+        const encrypted = Buffer.from(encryptedValue, 'base64')
+        return safeStorage.decryptString(encrypted)
+      } catch {
+        console.error('Failed to decrypt secret, using empty')
+      }
+    } else if (legacyValue) {
+      // Migrate legacy plain text secret
+      return legacyValue
+    }
+    return ''
+  }
+
+  private encryptSecret(value?: string): string | undefined {
+    if (value && safeStorage.isEncryptionAvailable()) {
+      const encrypted = safeStorage.encryptString(value)
+      return encrypted.toString('base64')
+    }
+    return undefined
+  }
+
+  private storeProfile(profile: ServerProfile): StoredProfile {
+    // Encrypt token and secret keys if available
+    const { authToken, oidc: { clientSecret, ...oidc }, transport, tunnels, visitors, ...settings } = profile
+    return {
+      ...settings,
+      encryptedToken: this.encryptSecret(authToken),
+      oidc: { ...oidc, encryptedClientSecret: this.encryptSecret(clientSecret) },
+      transport: { ...transport, proxy: transport.proxy && this.storeProxy(transport.proxy) },
+      tunnels: tunnels.map(tunnel => this.storeTunnel(tunnel)),
+      visitors: visitors.map(({ secretKey, ...visitor }): StoredVisitor => ({
+        ...visitor,
+        encryptedSecretKey: this.encryptSecret(secretKey)
+      }))
+    }
+  }
+
+  private loadTunnel({ encryptedSecretKey, secretKey, encryptedHttpPassword, httpPassword, encryptedPluginPassword, encryptedGroupKey, ...tunnel }: StoredTunnel): Tunnel {
+    const pluginSecret = this.decryptSecret(encryptedPluginPassword, pluginPassword(tunnel.plugin)) || undefined
+    return {
+      ...tunnel,
+      secretKey: this.decryptSecret(encryptedSecretKey, secretKey) || undefined,
+      httpPassword: this.decryptSecret(encryptedHttpPassword, httpPassword) || undefined,
+      plugin: withPluginPassword(tunnel.plugin, pluginSecret),
+      loadBalancer: tunnel.loadBalancer && {
+        ...tunnel.loadBalancer,
+        groupKey: this.decryptSecret(encryptedGroupKey, tunnel.loadBalancer.groupKey)
+      }
+    }
+  }
+
+  private storeTunnel({ secretKey, httpPassword, ...tunnel }: Tunnel): StoredTunnel {
+    return {
+      ...tunnel,
+      encryptedSecretKey: this.encryptSecret(secretKey),
+      encryptedHttpPassword: this.encryptSecret(httpPassword),
+      plugin: withPluginPassword(tunnel.plugin, undefined),
+      encryptedPluginPassword: this.encryptSecret(pluginPassword(tunnel.plugin)),
+      loadBalancer: tunnel.loadBalancer && { ...tunnel.loadBalancer, groupKey: '' },
+      encryptedGroupKey: this.encryptSecret(tunnel.loadBalancer?.groupKey)
+    }
+  }
+
+  private loadProxy({ encryptedPassword, ...proxy }: StoredProxy): OutboundProxy {
+    return { ...proxy, password: this.decryptSecret(encryptedPassword) || undefined }
+  }
 
+  private storeProxy({ password, ...proxy }: OutboundProxy): StoredProxy {
+    return { ...proxy, encryptedPassword: this.encryptSecret(password) }
+  }
+
+  private saveConfigToFile(): void {
+    try {
       const stored: StoredConfig = {
-        serverAddr: this.config.serverAddr,
-        serverPort: this.config.serverPort,
-        encryptedToken,
-        remotePortMin: this.config.remotePortMin,
-        remotePortMax: this.config.remotePortMax,
-        autoStart: this.config.autoStart,
-        tunnels: this.config.tunnels
+        activeProfileId: this.activeProfileId,
+        profiles: this.profiles.map(p => this.storeProfile(p)),
+        autoStart: this.autoStart,
+        frpcPath: this.frpcPath || undefined,
+        reconnect: this.reconnectPolicy
       }
 
       writeFileSync(this.configPath, JSON.stringify(stored, null, 2))
@@ -131,14 +659,130 @@ export class ConfigManager {
   }
 
   getConfig(): AppConfig {
-    return { ...this.config }
+    const { id, name: _name, ...settings } = this.profile
+    return {
+      ...settings,
+      activeProfileId: id,
+      profiles: this.getProfiles(),
+      autoStart: this.autoStart,
+      reconnect: this.reconnectPolicy
+    }
   }
 
+  // Profile settings apply to the active profile; everything else is app-wide
   saveConfig(updates: Partial<AppConfig>): void {
-    this.config = { ...this.config, ...updates }
+    for (const key of PROFILE_SETTING_KEYS) {
+      if (updates[key] !== undefined) {
+        Object.assign(this.profile, { [key]: updates[key] })
+      }
+    }
+    if (updates.autoStart !== undefined) {
+      this.autoStart = updates.autoStart
+    }
+    this.saveConfigToFile()
+  }
+
+  getFrpcPath(): string {
+    return this.frpcPath
+  }
+
+  setFrpcPath(path: string): void {
+    this.frpcPath = path
+    this.saveConfigToFile()
+  }
+
+  getReconnectPolicy(): ReconnectPolicy {
+    return this.reconnectPolicy
+  }
+
+  setReconnectPolicy(policy: ReconnectPolicy): void {
+    this.reconnectPolicy = policy
+    this.saveConfigToFile()
+  }
+
+  getProfiles(): ProfileSummary[] {
+    return this.profiles.map(({ id, name, serverAddr }) => ({ id, name, serverAddr }))
+  }
+
+  getActiveProfileId(): string {
+    return this.profile.id
+  }
+
+  addProfile(name: string): ProfileSummary {
+    const profile: ServerProfile = { ...DEFAULT_PROFILE, id: randomUUID(), name, tunnels: [], visitors: [] }
+    this.profiles.push(profile)
+    this.saveConfigToFile()
+    return { id: profile.id, name: profile.name, serverAddr: profile.serverAddr }
+  }
+
+  // Adds a profile built from a hand-written frpc config and makes it active
+  addImportedProfile(name: string, imported: FrpcConfigImport): ProfileSummary {
+    const remotePorts = imported.tunnels.map(t => t.remotePort).filter(port => port > 0)
+    const profile: ServerProfile = {
+      ...DEFAULT_PROFILE,
+      ...imported.settings,
+      id: randomUUID(),
+      name,
+      // Widen the allowed range so every imported port passes validation
+      remotePortMin: Math.min(DEFAULT_PROFILE.remotePortMin, ...remotePorts),
+      remotePortMax: Math.max(DEFAULT_PROFILE.remotePortMax, ...remotePorts),
+      tunnels: imported.tunnels.map(tunnel => ({ ...tunnel, id: randomUUID() })),
+      visitors: imported.visitors.map(visitor => ({ ...visitor, id: randomUUID() }))
+    }
+    this.profiles.push(profile)
+    this.activeProfileId = profile.id
+    this.saveConfigToFile()
+    return { id: profile.id, name: profile.name, serverAddr: profile.serverAddr }
+  }
+
+  renameProfile(id: string, name: string): void {
+    const profile = this.profiles.find(p => p.id === id)
+    if (!profile) {
+      throw new Error(`Profile with id ${id} not found`)
+    }
+    profile.name = name
+    this.saveConfigToFile()
+  }
+
+  removeProfile(id: string): void {
+    const index = this.profiles.findIndex(p => p.id === id)
+    if (index === -1) {
+      throw new Error(`Profile with id ${id} not found`)
+    }
+    if (this.profiles.length === 1) {
+      throw new Error('Cannot remove the last profile')
+    }
+    const files = [this.getFrpcConfigPath(id, 'toml'), this.getFrpcConfigPath(id, 'ini'), this.getFrpcLockPath(id)]
+    for (const path of files) {
+      if (existsSync(path)) {
+        unlinkSync(path)
+      }
+    }
+    this.profiles.splice(index, 1)
+    if (this.activeProfileId === id) {
+      this.activeProfileId = this.profiles[0].id
+    }
+    this.saveConfigToFile()
+  }
+
+  setActiveProfile(id: string): void {
+    if (!this.profiles.some(p => p.id === id)) {
+      throw new Error(`Profile with id ${id} not found`)
+    }
+    this.activeProfileId = id
     this.saveConfigToFile()
   }
 
+  getTunnels(profileId?: string): Tunnel[] {
+    return this.getProfile(profileId).tunnels
+  }
+
+  // How the app reaches a profile's frps, for probes run outside frpc
+  getServer(profileId?: string): Pick<ServerProfile, 'serverAddr' | 'serverPort' | 'transport'> {
+    const { serverAddr, serverPort, transport } = this.getProfile(profileId)
+    return { serverAddr, serverPort, transport }
+  }
+
   addTunnel(tunnel: Omit<Tunnel, 'id'>): Tunnel {
     const id = randomUUID()
     const newTunnel: Tunnel = {
@@ -149,116 +793,794 @@ export class ConfigManager {
 
     // Generate name if not provided
     if (!newTunnel.name) {
-      newTunnel.name = `tcp-${newTunnel.localPort}`
+      newTunnel.name = `${newTunnel.type}-${newTunnel.localPort}`
     }
 
-    this.config.tunnels.push(newTunnel)
+    this.profile.tunnels.push(newTunnel)
     this.saveConfigToFile()
     return newTunnel
   }
 
   updateTunnel(id: string, updates: Partial<Tunnel>): Tunnel {
-    const index = this.config.tunnels.findIndex(t => t.id === id)
+    const index = this.profile.tunnels.findIndex(t => t.id === id)
     if (index === -1) {
       throw new Error(`Tunnel with id ${id} not found`)
     }
-    this.config.tunnels[index] = { ...this.config.tunnels[index], ...updates }
+    this.profile.tunnels[index] = { ...this.profile.tunnels[index], ...updates }
     this.saveConfigToFile()
-    return this.config.tunnels[index]
+    return this.profile.tunnels[index]
   }
 
   removeTunnel(id: string): void {
-    const index = this.config.tunnels.findIndex(t => t.id === id)
+    const index = this.profile.tunnels.findIndex(t => t.id === id)
     if (index === -1) {
       throw new Error(`Tunnel with id ${id} not found`)
     }
-    this.config.tunnels.splice(index, 1)
+    this.profile.tunnels.splice(index, 1)
     this.saveConfigToFile()
   }
 
-  generateFrpcConfig(): string {
-    const lines: string[] = []
+  addVisitor(visitor: Omit<Visitor, 'id'>): Visitor {
+    const newVisitor: Visitor = {
+      ...visitor,
+      id: randomUUID(),
+      enabled: visitor.enabled !== undefined ? visitor.enabled : true
+    }
+
+    // Generate name if not provided
+    if (!newVisitor.name) {
+      newVisitor.name = `${newVisitor.serverName}-visitor`
+    }
+
+    this.profile.visitors.push(newVisitor)
+    this.saveConfigToFile()
+    return newVisitor
+  }
+
+  updateVisitor(id: string, updates: Partial<Visitor>): Visitor {
+    const index = this.profile.visitors.findIndex(v => v.id === id)
+    if (index === -1) {
+      throw new Error(`Visitor with id ${id} not found`)
+    }
+    this.profile.visitors[index] = { ...this.profile.visitors[index], ...updates }
+    this.saveConfigToFile()
+    return this.profile.visitors[index]
+  }
 
-    // Global settings
-    lines.push(`serverAddr = "${this.config.serverAddr}"`)
-    lines.push(`serverPort = ${this.config.serverPort}`)
-    lines.push('')
-    lines.push('auth.method = "token"')
-    lines.push(`auth.token = "${this.config.authToken}"`)
+  removeVisitor(id: string): void {
+    const index = this.profile.visitors.findIndex(v => v.id === id)
+    if (index === -1) {
+      throw new Error(`Visitor with id ${id} not found`)
+    }
+    this.profile.visitors.splice(index, 1)
+    this.saveConfigToFile()
+  }
+
+  generateFrpcConfig(profileId?: string, adminServer?: AdminServer, format: ConfigFormat = 'toml'): string {
+    return this.renderFrpcConfig(this.getProfile(profileId), format, adminServer)
+  }
+
+  // Config for the active profile with unsaved Settings changes applied, for the Settings preview.
+  // Tunnel secrets are always masked, server credentials unless revealSecrets is set
+  previewFrpcConfig(updates: Partial<AppConfig>, format: ConfigFormat, revealSecrets: boolean): string {
+    const profile = { ...this.profile }
+    for (const key of PROFILE_SETTING_KEYS) {
+      if (updates[key] !== undefined) {
+        Object.assign(profile, { [key]: updates[key] })
+      }
+    }
+    const masked = (secret: string) => secret ? '••••••••' : ''
+    return this.renderFrpcConfig(profile, format, undefined, (secret, scope) =>
+      scope === 'server' && revealSecrets ? secret : masked(secret))
+  }
+
+  private renderFrpcConfig(profile: ServerProfile, format: ConfigFormat, adminServer?: AdminServer, mask: SecretMask = secret => secret): string {
+    if (format === 'ini') {
+      return this.generateLegacyFrpcConfig(profile, adminServer, mask)
+    }
+    return stringifyToml(this.buildFrpcConfig(profile, adminServer, mask))
+  }
+
+  // frpc's config as data; the TOML serializer takes care of quoting and escaping
+  private buildFrpcConfig(profile: ServerProfile, adminServer: AdminServer | undefined, mask: SecretMask): TomlTable {
+    const config: TomlTable = {
+      serverAddr: profile.serverAddr,
+      serverPort: profile.serverPort,
+      auth: this.authTable(profile, mask)
+    }
+
+    const transport = this.serverTransportTable(profile.transport, mask)
+    if (transport) {
+      config.transport = transport
+    }
+
+    if (adminServer) {
+      config.webServer = {
+        addr: '127.0.0.1',
+        port: adminServer.port,
+        user: adminServer.user,
+        password: mask(adminServer.password, 'server', 'ADMIN_PASSWORD')
+      }
+    }
 
     // Only include enabled tunnels
-    const enabledTunnels = this.config.tunnels.filter(t => t.enabled !== false)
-    for (const tunnel of enabledTunnels) {
+    const enabledTunnels = profile.tunnels.filter(t => t.enabled !== false)
+    if (enabledTunnels.length > 0) {
+      config.proxies = enabledTunnels.map(tunnel => this.proxyTable(tunnel, mask))
+    }
+
+    const enabledVisitors = profile.visitors.filter(v => v.enabled !== false)
+    if (enabledVisitors.length > 0) {
+      config.visitors = enabledVisitors.map(visitor => compactTable({
+        name: visitor.name,
+        type: visitor.type,
+        serverName: visitor.serverName,
+        serverUser: visitor.serverUser || undefined,
+        secretKey: mask(visitor.secretKey, 'tunnel', entrySecretName(visitor.id, 'SECRET_KEY')),
+        bindAddr: visitor.bindAddr,
+        bindPort: visitor.bindPort,
+        fallbackTo: visitor.type === 'xtcp' && visitor.fallbackTo ? visitor.fallbackTo : undefined,
+        fallbackTimeoutMs: visitor.type === 'xtcp' && visitor.fallbackTo ? visitor.fallbackTimeoutMs || 1000 : undefined
+      }))
+    }
+
+    return config
+  }
+
+  private authTable(profile: ServerProfile, mask: SecretMask): TomlTable {
+    const auth: TomlTable = { method: profile.authMethod }
+    if (profile.authMethod === 'oidc') {
+      auth.oidc = compactTable({
+        clientID: profile.oidc.clientId,
+        clientSecret: mask(profile.oidc.clientSecret, 'server', 'OIDC_CLIENT_SECRET'),
+        audience: profile.oidc.audience || undefined,
+        scope: profile.oidc.scope || undefined,
+        tokenEndpointURL: profile.oidc.tokenEndpointURL
+      })
+    } else {
+      auth.token = mask(profile.authToken, 'server', 'AUTH_TOKEN')
+    }
+    if (profile.authAdditionalScopes?.length) {
+      auth.additionalScopes = profile.authAdditionalScopes
+    }
+    return auth
+  }
+
+  private proxyTable(tunnel: Tunnel, mask: SecretMask): TomlTable {
+    const proxy: TomlTable = {
+      name: tunnel.name,
+      type: tunnel.type
+    }
+    if (!tunnel.plugin) {
+      proxy.localIP = tunnel.localIP
+      proxy.localPort = tunnel.localPort
+    }
+    if (isVhostTunnel(tunnel)) {
+      Object.assign(proxy, this.vhostOptions(tunnel, mask))
+    } else if (isSecretTunnel(tunnel)) {
+      proxy.secretKey = mask(tunnel.secretKey || '', 'tunnel', entrySecretName(tunnel.id, 'SECRET_KEY'))
+      if (tunnel.allowUsers && tunnel.allowUsers.length > 0) {
+        proxy.allowUsers = tunnel.allowUsers
+      }
+    } else {
+      proxy.remotePort = tunnel.remotePort
+    }
+
+    const transport = this.tunnelTransportTable(tunnel)
+    if (transport) {
+      proxy.transport = transport
+    }
+    if (tunnel.loadBalancer?.group && supportsLoadBalancing(tunnel)) {
+      proxy.loadBalancer = {
+        group: tunnel.loadBalancer.group,
+        groupKey: mask(tunnel.loadBalancer.groupKey, 'tunnel', entrySecretName(tunnel.id, 'GROUP_KEY'))
+      }
+    }
+    if (tunnel.healthCheck && !tunnel.plugin) {
+      proxy.healthCheck = this.healthCheckTable(tunnel.healthCheck)
+    }
+    if (tunnel.plugin) {
+      proxy.plugin = this.pluginTable(tunnel.plugin, secret => mask(secret, 'tunnel', entrySecretName(tunnel.id, 'PLUGIN_PASSWORD')))
+    }
+    return proxy
+  }
+
+  private vhostOptions(tunnel: Tunnel, mask: SecretMask): TomlTable {
+    const options: TomlTable = {}
+    if (tunnel.customDomains && tunnel.customDomains.length > 0) {
+      options.customDomains = tunnel.customDomains
+    }
+    if (tunnel.subdomain) {
+      options.subdomain = tunnel.subdomain
+    }
+
+    if (tunnel.type !== 'http') {
+      return options
+    }
+
+    if (tunnel.locations && tunnel.locations.length > 0) {
+      options.locations = tunnel.locations
+    }
+    if (tunnel.hostHeaderRewrite) {
+      options.hostHeaderRewrite = tunnel.hostHeaderRewrite
+    }
+    if (tunnel.httpUser) {
+      options.httpUser = tunnel.httpUser
+      options.httpPassword = mask(tunnel.httpPassword || '', 'tunnel', entrySecretName(tunnel.id, 'HTTP_PASSWORD'))
+    }
+    if (tunnel.requestHeaders && Object.keys(tunnel.requestHeaders).length > 0) {
+      options.requestHeaders = { set: tunnel.requestHeaders }
+    }
+    return options
+  }
+
+  private serverTransportTable(transport: ServerTransport, mask: SecretMask): TomlTable | undefined {
+    const table: TomlTable = {}
+
+    if (transport.protocol !== 'tcp') {
+      table.protocol = transport.protocol
+    }
+    if (transport.proxy) {
+      table.proxyURL = maskedProxyURL(transport.proxy, mask)
+    }
+    if (transport.tcpMux === false) {
+      table.tcpMux = false
+    }
+    if (transport.poolCount) {
+      table.poolCount = transport.poolCount
+    }
+    if (transport.heartbeatInterval !== undefined) {
+      table.heartbeatInterval = transport.heartbeatInterval
+    }
+    if (transport.heartbeatTimeout !== undefined) {
+      table.heartbeatTimeout = transport.heartbeatTimeout
+    }
+
+    const tls = transport.tls
+    if (!tls.enable) {
+      table.tls = { enable: false }
+    } else {
+      const tlsTable = compactTable({
+        certFile: tls.certFile || undefined,
+        keyFile: tls.keyFile || undefined,
+        trustedCaFile: tls.trustedCaFile || undefined,
+        serverName: tls.serverName || undefined,
+        disableCustomTLSFirstByte: tls.disableCustomTLSFirstByte
+      })
+      if (Object.keys(tlsTable).length > 0) {
+        table.tls = tlsTable
+      }
+    }
+
+    return Object.keys(table).length > 0 ? table : undefined
+  }
+
+  private tunnelTransportTable(tunnel: Tunnel): TomlTable | undefined {
+    const transport = tunnel.transport
+    if (!transport) {
+      return undefined
+    }
+
+    const table = compactTable({
+      useEncryption: transport.useEncryption || undefined,
+      useCompression: transport.useCompression || undefined,
+      bandwidthLimit: transport.bandwidthLimit || undefined,
+      bandwidthLimitMode: transport.bandwidthLimit ? transport.bandwidthLimitMode || 'client' : undefined,
+      proxyProtocolVersion: supportsProxyProtocol(tunnel) ? transport.proxyProtocolVersion : undefined
+    })
+    return Object.keys(table).length > 0 ? table : undefined
+  }
+
+  private healthCheckTable(healthCheck: TunnelHealthCheck): TomlTable {
+    return compactTable({
+      type: healthCheck.type,
+      path: healthCheck.type === 'http' ? healthCheck.path || '/' : undefined,
+      intervalSeconds: healthCheck.intervalSeconds || undefined,
+      timeoutSeconds: healthCheck.timeoutSeconds || undefined,
+      maxFailed: healthCheck.maxFailed || undefined
+    })
+  }
+
+  // The plugin's one password is masked by `maskPassword`
+  private pluginTable(plugin: TunnelPlugin, maskPassword: (secret: string) => string): TomlTable {
+    switch (plugin.type) {
+      case 'static_file':
+        return compactTable({
+          type: plugin.type,
+          localPath: plugin.localPath,
+          stripPrefix: plugin.stripPrefix || undefined,
+          httpUser: plugin.httpUser || undefined,
+          httpPassword: plugin.httpUser ? maskPassword(plugin.httpPassword || '') : undefined
+        })
+      case 'socks5':
+        return compactTable({
+          type: plugin.type,
+          username: plugin.username || undefined,
+          password: plugin.username ? maskPassword(plugin.password || '') : undefined
+        })
+      case 'http_proxy':
+        return compactTable({
+          type: plugin.type,
+          httpUser: plugin.httpUser || undefined,
+          httpPassword: plugin.httpUser ? maskPassword(plugin.httpPassword || '') : undefined
+        })
+      case 'unix_domain_socket':
+        return { type: plugin.type, unixPath: plugin.unixPath }
+      case 'https2http':
+      case 'https2https':
+        return compactTable({
+          type: plugin.type,
+          localAddr: plugin.localAddr,
+          crtPath: plugin.crtPath || undefined,
+          keyPath: plugin.keyPath || undefined,
+          hostHeaderRewrite: plugin.hostHeaderRewrite || undefined
+        })
+    }
+  }
+
+  // INI format for frpc releases before 0.52, which cannot read TOML.
+  // Keys follow the pre-0.52 names, e.g. server_addr and plugin_local_path
+  private generateLegacyFrpcConfig(profile: ServerProfile, adminServer: AdminServer | undefined, mask: SecretMask): string {
+    const lines: string[] = []
+    const push = (key: string, value: string | number | boolean | undefined) => {
+      if (value !== undefined && value !== '') {
+        lines.push(`${key} = ${value}`)
+      }
+    }
+
+    lines.push('[common]')
+    push('server_addr', profile.serverAddr)
+    push('server_port', profile.serverPort)
+    push('authentication_method', profile.authMethod)
+    if (profile.authMethod === 'oidc') {
+      push('oidc_client_id', profile.oidc.clientId)
+      push('oidc_client_secret', mask(profile.oidc.clientSecret, 'server', 'OIDC_CLIENT_SECRET'))
+      push('oidc_audience', profile.oidc.audience)
+      push('oidc_scope', profile.oidc.scope)
+      push('oidc_token_endpoint_url', profile.oidc.tokenEndpointURL)
+    } else {
+      push('token', mask(profile.authToken, 'server', 'AUTH_TOKEN'))
+    }
+    if (profile.authAdditionalScopes?.includes('HeartBeats')) {
+      push('authenticate_heartbeats', true)
+    }
+    if (profile.authAdditionalScopes?.includes('NewWorkConns')) {
+      push('authenticate_new_work_conns', true)
+    }
+
+    const transport = profile.transport
+    if (transport.protocol !== 'tcp') {
+      push('protocol', transport.protocol)
+    }
+    if (transport.proxy) {
+      push('http_proxy', maskedProxyURL(transport.proxy, mask))
+    }
+    if (transport.tcpMux === false) {
+      push('tcp_mux', false)
+    }
+    push('pool_count', transport.poolCount || undefined)
+    push('heartbeat_interval', transport.heartbeatInterval)
+    push('heartbeat_timeout', transport.heartbeatTimeout)
+    // TLS was off by default before 0.50, so always say which one we want
+    push('tls_enable', transport.tls.enable)
+    if (transport.tls.enable) {
+      push('tls_cert_file', transport.tls.certFile)
+      push('tls_key_file', transport.tls.keyFile)
+      push('tls_trusted_ca_file', transport.tls.trustedCaFile)
+      push('tls_server_name', transport.tls.serverName)
+      push('disable_custom_tls_first_byte', transport.tls.disableCustomTLSFirstByte)
+    }
+
+    if (adminServer) {
+      push('admin_addr', '127.0.0.1')
+      push('admin_port', adminServer.port)
+      push('admin_user', adminServer.user)
+      push('admin_pwd', mask(adminServer.password, 'server', 'ADMIN_PASSWORD'))
+    }
+
+    for (const tunnel of profile.tunnels.filter(t => t.enabled !== false)) {
+      lines.push('')
+      lines.push(`[${tunnel.name}]`)
+      push('type', tunnel.type)
+      if (!tunnel.plugin) {
+        push('local_ip', tunnel.localIP)
+        push('local_port', tunnel.localPort)
+      }
+      if (isVhostTunnel(tunnel)) {
+        push('custom_domains', tunnel.customDomains?.join(','))
+        push('subdomain', tunnel.subdomain)
+        if (tunnel.type === 'http') {
+          push('locations', tunnel.locations?.join(','))
+          push('host_header_rewrite', tunnel.hostHeaderRewrite)
+          if (tunnel.httpUser) {
+            push('http_user', tunnel.httpUser)
+            push('http_pwd', mask(tunnel.httpPassword || '', 'tunnel', entrySecretName(tunnel.id, 'HTTP_PASSWORD')))
+          }
+          for (const [header, value] of Object.entries(tunnel.requestHeaders || {})) {
+            push(`header_${header}`, value)
+          }
+        }
+      } else if (isSecretTunnel(tunnel)) {
+        push('sk', mask(tunnel.secretKey || '', 'tunnel', entrySecretName(tunnel.id, 'SECRET_KEY')))
+        push('allow_users', tunnel.allowUsers?.join(','))
+      } else {
+        push('remote_port', tunnel.remotePort)
+      }
+
+      const tunnelTransport = tunnel.transport
+      if (tunnelTransport?.useEncryption) {
+        push('use_encryption', true)
+      }
+      if (tunnelTransport?.useCompression) {
+        push('use_compression', true)
+      }
+      if (tunnelTransport?.bandwidthLimit) {
+        push('bandwidth_limit', tunnelTransport.bandwidthLimit)
+        push('bandwidth_limit_mode', tunnelTransport.bandwidthLimitMode || 'client')
+      }
+      if (tunnelTransport?.proxyProtocolVersion && supportsProxyProtocol(tunnel)) {
+        push('proxy_protocol_version', tunnelTransport.proxyProtocolVersion)
+      }
+
+      if (tunnel.loadBalancer?.group && supportsLoadBalancing(tunnel)) {
+        push('group', tunnel.loadBalancer.group)
+        push('group_key', mask(tunnel.loadBalancer.groupKey, 'tunnel', entrySecretName(tunnel.id, 'GROUP_KEY')))
+      }
+
+      if (tunnel.healthCheck && !tunnel.plugin) {
+        push('health_check_type', tunnel.healthCheck.type)
+        if (tunnel.healthCheck.type === 'http') {
+          push('health_check_url', tunnel.healthCheck.path || '/')
+        }
+        push('health_check_interval_s', tunnel.healthCheck.intervalSeconds || undefined)
+        push('health_check_timeout_s', tunnel.healthCheck.timeoutSeconds || undefined)
+        push('health_check_max_failed', tunnel.healthCheck.maxFailed || undefined)
+      }
+
+      const plugin = tunnel.plugin
+      if (plugin) {
+        push('plugin', plugin.type)
+        switch (plugin.type) {
+          case 'static_file':
+            push('plugin_local_path', plugin.localPath)
+            push('plugin_strip_prefix', plugin.stripPrefix)
+            if (plugin.httpUser) {
+              push('plugin_http_user', plugin.httpUser)
+              push('plugin_http_passwd', mask(plugin.httpPassword || '', 'tunnel', entrySecretName(tunnel.id, 'PLUGIN_PASSWORD')))
+            }
+            break
+          case 'socks5':
+            if (plugin.username) {
+              push('plugin_user', plugin.username)
+              push('plugin_passwd', mask(plugin.password || '', 'tunnel', entrySecretName(tunnel.id, 'PLUGIN_PASSWORD')))
+            }
+            break
+          case 'http_proxy':
+            if (plugin.httpUser) {
+              push('plugin_http_user', plugin.httpUser)
+              push('plugin_http_passwd', mask(plugin.httpPassword || '', 'tunnel', entrySecretName(tunnel.id, 'PLUGIN_PASSWORD')))
+            }
+            break
+          case 'unix_domain_socket':
+            push('plugin_unix_path', plugin.unixPath)
+            break
+          case 'https2http':
+          case 'https2https':
+            push('plugin_local_addr', plugin.localAddr)
+            push('plugin_crt_path', plugin.crtPath)
+            push('plugin_key_path', plugin.keyPath)
+            push('plugin_host_header_rewrite', plugin.hostHeaderRewrite)
+            break
+        }
+      }
+    }
+
+    for (const visitor of profile.visitors.filter(v => v.enabled !== false)) {
       lines.push('')
-      lines.push('[[proxies]]')
-      lines.push(`name = "${tunnel.name}"`)
-      lines.push(`type = "${tunnel.type}"`)
-      lines.push(`localIP = "${tunnel.localIP}"`)
-      lines.push(`localPort = ${tunnel.localPort}`)
-      lines.push(`remotePort = ${tunnel.remotePort}`)
+      lines.push(`[${visitor.name}]`)
+      push('role', 'visitor')
+      push('type', visitor.type)
+      push('server_name', visitor.serverName)
+      push('server_user', visitor.serverUser)
+      push('sk', mask(visitor.secretKey, 'tunnel', entrySecretName(visitor.id, 'SECRET_KEY')))
+      push('bind_addr', visitor.bindAddr)
+      push('bind_port', visitor.bindPort)
+      if (visitor.type === 'xtcp' && visitor.fallbackTo) {
+        push('fallback_to', visitor.fallbackTo)
+        push('fallback_timeout_ms', visitor.fallbackTimeoutMs || 1000)
+      }
     }
 
     return lines.join('\n')
   }
 
-  writeFrpcConfig(): string {
-    const content = this.generateFrpcConfig()
-    writeFileSync(this.frpcConfigPath, content)
-    return this.frpcConfigPath
+  // Secrets stay out of the file: it references them as {{ .Envs.FRPC_... }} templates,
+  // which frpc expands from the environment it is started with.
+  // Held tunnels are left out until their local service is up
+  writeFrpcConfig(profileId?: string, adminServer?: AdminServer, format: ConfigFormat = 'toml', heldTunnelIds: string[] = []): FrpcConfigFile {
+    const env: Record<string, string> = {}
+    const toEnv: SecretMask = (secret, _scope, name) => {
+      if (!secret) {
+        return ''
+      }
+      // TOML templates sit inside a quoted string, so the value carries the string escaping
+      env[`FRPC_${name}`] = format === 'toml' ? JSON.stringify(secret).slice(1, -1) : secret
+      return `{{ .Envs.FRPC_${name} }}`
+    }
+
+    const profile = this.getProfile(profileId)
+    if (heldTunnelIds.length > 0) {
+      // The env still gets the held tunnels' secrets, so releasing them is a reload and not a restart
+      this.renderFrpcConfig(profile, format, adminServer, toEnv)
+    }
+    const content = this.renderFrpcConfig(
+      { ...profile, tunnels: profile.tunnels.filter(t => !heldTunnelIds.includes(t.id)) },
+      format,
+      adminServer,
+      toEnv
+    )
+    const configPath = this.getFrpcConfigPath(profileId, format)
+    writeFileSync(configPath, content, { mode: 0o600 })
+    // mode only applies when the file is created
+    chmodSync(configPath, 0o600)
+    return { path: configPath, content, env }
   }
 
-  getFrpcConfigPath(): string {
-    return this.frpcConfigPath
+  // Each profile gets its own file so several frpc instances can run side by side
+  getFrpcConfigPath(profileId?: string, format: ConfigFormat = 'toml'): string {
+    return join(this.configDir, `frpc-${this.getProfile(profileId).id}.${format}`)
   }
 
-  validateConfig(): { valid: boolean; errors: string[] } {
+  // Where the running frpc of a profile is recorded, see FrpcLock
+  getFrpcLockPath(profileId?: string): string {
+    return join(this.configDir, `frpc-${this.getProfile(profileId).id}.pid`)
+  }
+
+  validateConfig(profileId?: string): { valid: boolean; errors: string[] } {
+    const profile = this.getProfile(profileId)
     const errors: string[] = []
 
-    if (!this.config.serverAddr) {
+    const { serverAddr, authToken, oidc, subDomainHost, transport } = profile
+    errors.push(...unsafeIniFields({ serverAddr, authToken, oidc, subDomainHost, transport }, ''))
+
+    if (!profile.serverAddr) {
       errors.push('Server address is required')
     }
-    if (!this.config.serverPort || this.config.serverPort < 1 || this.config.serverPort > 65535) {
+    if (!profile.serverPort || profile.serverPort < 1 || profile.serverPort > 65535) {
       errors.push('Server port must be between 1 and 65535')
     }
-    if (!this.config.authToken) {
+    if (profile.authMethod === 'oidc') {
+      if (!profile.oidc.clientId) {
+        errors.push('OIDC client ID is required')
+      }
+      if (!profile.oidc.clientSecret) {
+        errors.push('OIDC client secret is required')
+      }
+      if (!/^https?:\/\/\S+$/.test(profile.oidc.tokenEndpointURL)) {
+        errors.push('OIDC token endpoint must be an http(s) URL')
+      }
+    } else if (!profile.authToken) {
       errors.push('Auth token is required')
     }
+    errors.push(...this.validateServerTransport(profile.transport))
 
-    // Check for duplicate remote ports
-    const remotePorts = this.config.tunnels.map(t => t.remotePort)
+    // Check for duplicate remote ports. TCP and UDP may share a port number,
+    // and so may members of the same load-balancer group
+    const portTunnels = profile.tunnels.filter(t => !isVhostTunnel(t) && !isSecretTunnel(t))
+    const remotePorts = groupAwareKeys(portTunnels, t => [`${t.remotePort}/${t.type}`])
     const duplicates = remotePorts.filter((port, index) => remotePorts.indexOf(port) !== index)
     if (duplicates.length > 0) {
       errors.push(`Duplicate remote ports: ${[...new Set(duplicates)].join(', ')}`)
     }
 
+    // Check for custom domains routed to more than one tunnel of the same type
+    const vhostDomains = groupAwareKeys(
+      profile.tunnels.filter(t => isVhostTunnel(t)),
+      t => (t.customDomains || []).map(d => `${t.type}://${d.toLowerCase()}`)
+    )
+    const duplicateDomains = vhostDomains.filter((domain, index) => vhostDomains.indexOf(domain) !== index)
+    if (duplicateDomains.length > 0) {
+      errors.push(`Duplicate custom domains: ${[...new Set(duplicateDomains)].join(', ')}`)
+    }
+
     // Validate each tunnel
-    for (const tunnel of this.config.tunnels) {
-      if (tunnel.localPort < 1 || tunnel.localPort > 65535) {
+    for (const tunnel of profile.tunnels) {
+      if (!NAME_PATTERN.test(tunnel.name)) {
+        errors.push(`Tunnel "${tunnel.name}": name may only contain letters, digits, "-", "_" and "."`)
+      }
+      errors.push(...unsafeIniFields(tunnel, '').map(error => `Tunnel "${tunnel.name}": ${error}`))
+      if (tunnel.plugin) {
+        errors.push(...this.validatePlugin(tunnel, tunnel.plugin))
+      } else if (tunnel.localPort < 1 || tunnel.localPort > 65535) {
         errors.push(`Tunnel "${tunnel.name}": local port must be between 1 and 65535`)
       }
-      if (tunnel.remotePort < 1 || tunnel.remotePort > 65535) {
+      if (isVhostTunnel(tunnel)) {
+        if (!tunnel.customDomains?.length && !tunnel.subdomain) {
+          errors.push(`Tunnel "${tunnel.name}": a custom domain or subdomain is required`)
+        }
+      } else if (isSecretTunnel(tunnel)) {
+        if (!tunnel.secretKey) {
+          errors.push(`Tunnel "${tunnel.name}": secret key is required`)
+        }
+      } else if (tunnel.remotePort < 1 || tunnel.remotePort > 65535) {
         errors.push(`Tunnel "${tunnel.name}": remote port must be between 1 and 65535`)
       }
+      if (tunnel.healthCheck?.type === 'http' && tunnel.healthCheck.path && !tunnel.healthCheck.path.startsWith('/')) {
+        errors.push(`Tunnel "${tunnel.name}": health check path must start with /`)
+      }
+      if (tunnel.transport?.bandwidthLimit && !/^\d+(KB|MB)$/.test(tunnel.transport.bandwidthLimit)) {
+        errors.push(`Tunnel "${tunnel.name}": bandwidth limit must look like 512KB or 1MB`)
+      }
+    }
+
+    errors.push(...this.validateLoadBalancerGroups(profile.tunnels))
+
+    // Visitors share the proxy name space and listen locally, so names and bind ports must be unique
+    const enabledVisitors = profile.visitors.filter(v => v.enabled !== false)
+    const names = [...profile.tunnels, ...profile.visitors].map(e => e.name)
+    const duplicateNames = names.filter((name, index) => names.indexOf(name) !== index)
+    if (duplicateNames.length > 0) {
+      errors.push(`Duplicate tunnel/visitor names: ${[...new Set(duplicateNames)].join(', ')}`)
+    }
+    const bindPorts = enabledVisitors.map(v => `${v.bindAddr}:${v.bindPort}/${v.type === 'sudp' ? 'udp' : 'tcp'}`)
+    const duplicateBinds = bindPorts.filter((bind, index) => bindPorts.indexOf(bind) !== index)
+    if (duplicateBinds.length > 0) {
+      errors.push(`Duplicate visitor bind addresses: ${[...new Set(duplicateBinds)].join(', ')}`)
+    }
+
+    for (const visitor of profile.visitors) {
+      if (!NAME_PATTERN.test(visitor.name)) {
+        errors.push(`Visitor "${visitor.name}": name may only contain letters, digits, "-", "_" and "."`)
+      }
+      errors.push(...unsafeIniFields(visitor, '').map(error => `Visitor "${visitor.name}": ${error}`))
+      if (!visitor.serverName) {
+        errors.push(`Visitor "${visitor.name}": server name is required`)
+      } else if (!NAME_PATTERN.test(visitor.serverName)) {
+        errors.push(`Visitor "${visitor.name}": server name may only contain letters, digits, "-", "_" and "."`)
+      }
+      if (!visitor.secretKey) {
+        errors.push(`Visitor "${visitor.name}": secret key is required`)
+      }
+      if (visitor.bindPort < 1 || visitor.bindPort > 65535) {
+        errors.push(`Visitor "${visitor.name}": bind port must be between 1 and 65535`)
+      }
+      if (visitor.type === 'xtcp' && visitor.fallbackTo) {
+        const fallback = enabledVisitors.find(v => v.name === visitor.fallbackTo)
+        if (!fallback || fallback.type !== 'stcp') {
+          errors.push(`Visitor "${visitor.name}": fallback must be an enabled stcp visitor`)
+        }
+      }
     }
 
     return { valid: errors.length === 0, errors }
   }
 
-  // Export config (without encrypted token for portability)
+  private validateServerTransport(transport: ServerTransport): string[] {
+    const errors: string[] = []
+
+    if (transport.proxy) {
+      if (transport.protocol === 'kcp' || transport.protocol === 'quic') {
+        errors.push('An outbound proxy only works with the tcp, websocket and wss protocols')
+      }
+      if (!transport.proxy.host) {
+        errors.push('Outbound proxy host is required')
+      }
+      if (transport.proxy.port < 1 || transport.proxy.port > 65535) {
+        errors.push('Outbound proxy port must be between 1 and 65535')
+      }
+    }
+    if (transport.poolCount !== undefined && transport.poolCount < 0) {
+      errors.push('Connection pool count cannot be negative')
+    }
+    const { heartbeatInterval, heartbeatTimeout } = transport
+    if (heartbeatInterval && heartbeatTimeout && heartbeatInterval > 0 && heartbeatTimeout <= heartbeatInterval) {
+      errors.push('Heartbeat timeout must be longer than the heartbeat interval')
+    }
+    if (transport.tls.enable && !transport.tls.certFile !== !transport.tls.keyFile) {
+      errors.push('TLS certificate and key files must be set together')
+    }
+
+    return errors
+  }
+
+  private validateLoadBalancerGroups(tunnels: Tunnel[]): string[] {
+    const errors: string[] = []
+    const groups = new Map<string, Tunnel[]>()
+
+    for (const tunnel of tunnels) {
+      const group = tunnel.loadBalancer?.group
+      if (!group) {
+        continue
+      }
+      if (!supportsLoadBalancing(tunnel)) {
+        errors.push(`Tunnel "${tunnel.name}": load balancing is only supported for tcp and http tunnels`)
+        continue
+      }
+      const key = `${tunnel.type}:${group}`
+      groups.set(key, [...(groups.get(key) || []), tunnel])
+    }
+
+    // Members must agree on the group key, and tcp members on the shared remote port
+    for (const members of groups.values()) {
+      const [first, ...rest] = members
+      const group = first.loadBalancer!.group
+      if (rest.some(t => t.loadBalancer!.groupKey !== first.loadBalancer!.groupKey)) {
+        errors.push(`Load balancer group "${group}": all tunnels must use the same group key`)
+      }
+      if (first.type === 'tcp' && rest.some(t => t.remotePort !== first.remotePort)) {
+        errors.push(`Load balancer group "${group}": all tunnels must use the same remote port`)
+      }
+    }
+
+    return errors
+  }
+
+  private validatePlugin(tunnel: Tunnel, plugin: TunnelPlugin): string[] {
+    const errors: string[] = []
+
+    if (!pluginTypesFor(tunnel.type).includes(plugin.type)) {
+      errors.push(`Tunnel "${tunnel.name}": plugin ${plugin.type} cannot be used with ${tunnel.type} tunnels`)
+      return errors
+    }
+
+    switch (plugin.type) {
+      case 'static_file':
+        if (!plugin.localPath) {
+          errors.push(`Tunnel "${tunnel.name}": a directory to serve is required`)
+        }
+        break
+      case 'unix_domain_socket':
+        if (!plugin.unixPath) {
+          errors.push(`Tunnel "${tunnel.name}": a unix socket path is required`)
+        }
+        break
+      case 'https2http':
+      case 'https2https':
+        if (!plugin.localAddr) {
+          errors.push(`Tunnel "${tunnel.name}": a local address is required`)
+        }
+        if (!plugin.crtPath !== !plugin.keyPath) {
+          errors.push(`Tunnel "${tunnel.name}": certificate and key files must be set together`)
+        }
+        break
+    }
+
+    return errors
+  }
+
+  // Export config (without encrypted token or secret keys for portability)
   exportConfig(): string {
     const exportData = {
-      serverAddr: this.config.serverAddr,
-      serverPort: this.config.serverPort,
-      // Token is NOT exported for security
-      remotePortMin: this.config.remotePortMin,
-      remotePortMax: this.config.remotePortMax,
-      autoStart: this.config.autoStart,
-      tunnels: this.config.tunnels
+      serverAddr: this.profile.serverAddr,
+      serverPort: this.profile.serverPort,
+      // Token and OIDC client secret are NOT exported for security
+      authMethod: this.profile.authMethod,
+      oidc: { ...this.profile.oidc, clientSecret: undefined },
+      authAdditionalScopes: this.profile.authAdditionalScopes,
+      remotePortMin: this.profile.remotePortMin,
+      remotePortMax: this.profile.remotePortMax,
+      subDomainHost: this.profile.subDomainHost,
+      vhostHTTPPort: this.profile.vhostHTTPPort,
+      vhostHTTPSPort: this.profile.vhostHTTPSPort,
+      // Proxy password is stripped like the token
+      transport: {
+        ...this.profile.transport,
+        proxy: this.profile.transport.proxy && { ...this.profile.transport.proxy, password: undefined }
+      },
+      autoStart: this.autoStart,
+      reconnect: this.reconnectPolicy,
+      // Secret keys and tunnel passwords are NOT exported either
+      tunnels: this.profile.tunnels.map(({ secretKey: _secretKey, httpPassword: _httpPassword, ...tunnel }) => ({
+        ...tunnel,
+        plugin: withPluginPassword(tunnel.plugin, undefined),
+        loadBalancer: tunnel.loadBalancer && { ...tunnel.loadBalancer, groupKey: '' }
+      })),
+      visitors: this.profile.visitors.map(({ secretKey: _secretKey, ...visitor }) => visitor)
     }
     return JSON.stringify(exportData, null, 2)
   }
 
-  // Import config (preserves current token if not provided)
+  // Import config (preserves current token, client secret and secret keys if not provided)
   importConfig(jsonData: string): { success: boolean; error?: string } {
     try {
       const imported = JSON.parse(jsonData)
@@ -268,14 +1590,42 @@ export class ConfigManager {
         return { success: false, error: 'Invalid server address' }
       }
 
-      this.config = {
-        ...this.config,
-        serverAddr: imported.serverAddr || this.config.serverAddr,
-        serverPort: imported.serverPort || this.config.serverPort,
-        remotePortMin: imported.remotePortMin || this.config.remotePortMin,
-        remotePortMax: imported.remotePortMax || this.config.remotePortMax,
-        autoStart: imported.autoStart ?? this.config.autoStart,
-        tunnels: Array.isArray(imported.tunnels) ? imported.tunnels : this.config.tunnels
+      const profile = this.profile
+      Object.assign(profile, {
+        serverAddr: imported.serverAddr || profile.serverAddr,
+        serverPort: imported.serverPort || profile.serverPort,
+        authMethod: imported.authMethod === 'oidc' || imported.authMethod === 'token'
+          ? imported.authMethod
+          : profile.authMethod,
+        oidc: imported.oidc
+          ? { ...profile.oidc, ...imported.oidc, clientSecret: imported.oidc.clientSecret || profile.oidc.clientSecret }
+          : profile.oidc,
+        authAdditionalScopes: imported.authAdditionalScopes ?? profile.authAdditionalScopes,
+        remotePortMin: imported.remotePortMin || profile.remotePortMin,
+        remotePortMax: imported.remotePortMax || profile.remotePortMax,
+        subDomainHost: imported.subDomainHost ?? profile.subDomainHost,
+        vhostHTTPPort: imported.vhostHTTPPort || profile.vhostHTTPPort,
+        vhostHTTPSPort: imported.vhostHTTPSPort || profile.vhostHTTPSPort,
+        transport: imported.transport?.tls
+          ? {
+              ...profile.transport,
+              ...imported.transport,
+              proxy: imported.transport.proxy && {
+                ...imported.transport.proxy,
+                password: imported.transport.proxy.password || profile.transport.proxy?.password
+              }
+            }
+          : profile.transport,
+        tunnels: Array.isArray(imported.tunnels)
+          ? this.keepTunnelSecrets(imported.tunnels, profile.tunnels)
+          : profile.tunnels,
+        visitors: Array.isArray(imported.visitors)
+          ? this.keepSecretKeys(imported.visitors, profile.visitors)
+          : profile.visitors
+      })
+      this.autoStart = imported.autoStart ?? this.autoStart
+      if (imported.reconnect) {
+        this.reconnectPolicy = { ...DEFAULT_RECONNECT_POLICY, ...imported.reconnect }
       }
 
       this.saveConfigToFile()
@@ -284,4 +1634,32 @@ export class ConfigManager {
       return { success: false, error: 'Invalid JSON format' }
     }
   }
+
+  // Carry secret keys over from existing entries with the same id
+  private keepTunnelSecrets(imported: Tunnel[], existing: Tunnel[]): Tunnel[] {
+    return this.keepSecretKeys(imported, existing).map(tunnel => {
+      const match = existing.find(e => e.id === tunnel.id)
+      // A plugin password only carries over while the plugin type stays the same
+      const matchPlugin = match?.plugin?.type === tunnel.plugin?.type ? match?.plugin : undefined
+      return {
+        ...tunnel,
+        httpPassword: tunnel.httpPassword || match?.httpPassword,
+        plugin: withPluginPassword(tunnel.plugin, pluginPassword(tunnel.plugin) || pluginPassword(matchPlugin)),
+        loadBalancer: tunnel.loadBalancer && {
+          ...tunnel.loadBalancer,
+          groupKey: tunnel.loadBalancer.groupKey || match?.loadBalancer?.groupKey || ''
+        }
+      }
+    })
+  }
+
+  private keepSecretKeys<T extends { id: string; secretKey?: string }>(imported: T[], existing: T[]): T[] {
+    return imported.map(entry => {
+      if (entry.secretKey) {
+        return entry
+      }
+      const match = existing.find(e => e.id === entry.id)
+      return match?.secretKey ? { ...entry, secretKey: match.secretKey } : entry
+    })
+  }
 }
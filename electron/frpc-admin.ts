@@ -0,0 +1,100 @@
+import * as http from 'http'
+import * as net from 'net'
+import { randomBytes } from 'crypto'
+import { AdminServer } from './config-manager'
+
+export type ProxyState = 'running' | 'error' | 'pending'
+
+// Live state of one proxy as reported by frpc
+export interface ProxyStatus {
+  name: string
+  state: ProxyState
+  error?: string
+  remoteAddr?: string
+}
+
+// One entry of frpc's GET /api/status response, which groups proxies by type
+interface AdminProxyStatus {
+  name: string
+  type: string
+  status: string
+  err: string
+  local_addr: string
+  plugin: string
+  remote_addr: string
+}
+
+// Pick a free localhost port and fresh credentials for frpc's admin API
+export async function createAdminServer(): Promise<AdminServer> {
+  const port = await new Promise<number>((resolve, reject) => {
+    const server = net.createServer()
+    server.unref()
+    server.on('error', reject)
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as net.AddressInfo
+      server.close(() => resolve(port))
+    })
+  })
+  return { port, user: 'frp-gui', password: randomBytes(16).toString('hex') }
+}
+
+function toProxyStatus(proxy: AdminProxyStatus): ProxyStatus {
+  switch (proxy.status) {
+    case 'running':
+      return { name: proxy.name, state: 'running', remoteAddr: proxy.remote_addr || undefined }
+    case 'start error':
+    case 'check failed':
+      return { name: proxy.name, state: 'error', error: proxy.err || proxy.status }
+    default:
+      // new, wait start, closed
+      return { name: proxy.name, state: 'pending' }
+  }
+}
+
+export class FrpcAdminClient {
+  private server: AdminServer
+
+  constructor(server: AdminServer) {
+    this.server = server
+  }
+
+  private request(path: string, timeout: number = 3000): Promise<{ status: number; body: string }> {
+    return new Promise((resolve, reject) => {
+      const req = http.request({
+        host: '127.0.0.1',
+        port: this.server.port,
+        path,
+        auth: `${this.server.user}:${this.server.password}`,
+        timeout
+      }, (res) => {
+        let body = ''
+        res.setEncoding('utf-8')
+        res.on('data', (chunk: string) => {
+          body += chunk
+        })
+        res.on('end', () => resolve({ status: res.statusCode || 0, body }))
+      })
+
+      req.on('timeout', () => req.destroy(new Error('Admin API timeout')))
+      req.on('error', reject)
+      req.end()
+    })
+  }
+
+  // Re-read the config file and apply proxy/visitor changes. Global settings are not reloaded
+  async reload(): Promise<void> {
+    const { status, body } = await this.request('/api/reload', 10000)
+    if (status !== 200) {
+      throw new Error(body.trim() || `Admin API returned ${status}`)
+    }
+  }
+
+  async getProxyStatuses(): Promise<ProxyStatus[]> {
+    const { status, body } = await this.request('/api/status')
+    if (status !== 200) {
+      throw new Error(`Admin API returned ${status}`)
+    }
+    const grouped: Record<string, AdminProxyStatus[]> = JSON.parse(body)
+    return Object.values(grouped).flat().map(toProxyStatus)
+  }
+}
@@ -0,0 +1,207 @@
+import { execFile } from 'child_process'
+import { createHash } from 'crypto'
+import {
+  accessSync,
+  chmodSync,
+  constants,
+  createReadStream,
+  mkdirSync,
+  renameSync,
+  rmSync,
+  statSync
+} from 'fs'
+import { app } from 'electron'
+import { basename, delimiter, dirname, join } from 'path'
+import { promisify } from 'util'
+
+const execFileAsync = promisify(execFile)
+
+export type ConfigFormat = 'toml' | 'ini'
+
+// Where a binary was found: a path picked in Settings, one installed from an
+// archive, one shipped with the app, or one installed on the system
+export type BinarySource = 'custom' | 'installed' | 'bundled' | 'system'
+
+export interface ResolvedBinary {
+  path: string
+  source: BinarySource
+}
+
+export interface FrpcBinaryInfo extends ResolvedBinary {
+  sha256: string
+  // null when `frpc -v` could not be run or printed something unexpected
+  version: string | null
+  supported: boolean
+  configFormat: ConfigFormat
+  // frpc's default for transport.tls.disableCustomTLSFirstByte
+  customTLSFirstByteDisabled: boolean
+}
+
+// Oldest frpc that understands every option the INI generator writes
+export const MIN_FRPC_VERSION = '0.38.0'
+// First frpc release that reads TOML config files
+export const TOML_MIN_VERSION = '0.52.0'
+// First frpc release that skips the custom TLS first byte unless told otherwise
+export const TLS_FIRST_BYTE_DISABLED_VERSION = '0.50.0'
+
+// Windows only runs frpc with its .exe suffix
+const FRPC_NAME = process.platform === 'win32' ? 'frpc.exe' : 'frpc'
+
+function isExecutable(path: string): boolean {
+  try {
+    accessSync(path, constants.X_OK)
+    return statSync(path).isFile()
+  } catch {
+    return false
+  }
+}
+
+// Where installFrpcArchive puts frpc
+export function getInstalledFrpcPath(): string {
+  return join(app.getPath('userData'), 'frpc', FRPC_NAME)
+}
+
+// A custom path is used as-is, without falling back to the other locations
+export function findFrpcBinary(customPath?: string): ResolvedBinary | null {
+  if (customPath) {
+    return isExecutable(customPath) ? { path: customPath, source: 'custom' } : null
+  }
+
+  if (isExecutable(getInstalledFrpcPath())) {
+    return { path: getInstalledFrpcPath(), source: 'installed' }
+  }
+
+  // Locations the packaged app ships frpc in
+  const bundledLocations = [
+    // Next to the executable (extraFiles)
+    join(dirname(app.getPath('exe')), FRPC_NAME),
+    // In resources (for some packaging methods)
+    join(process.resourcesPath || '', FRPC_NAME),
+    // Snap location ($SNAP env var)
+    join(process.env.SNAP || '', 'frpc'),
+    // Flatpak location
+    '/app/bin/frpc'
+  ]
+
+  for (const loc of bundledLocations) {
+    if (isExecutable(loc)) {
+      return { path: loc, source: 'bundled' }
+    }
+  }
+
+  // Common system locations, then the PATH
+  const systemLocations = [
+    '/usr/local/bin/frpc',
+    '/usr/bin/frpc',
+    '/opt/frp-gui/frpc/frpc',
+    ...(process.env.PATH || '').split(delimiter).filter(Boolean).map(dir => join(dir, FRPC_NAME))
+  ]
+
+  for (const loc of systemLocations) {
+    if (isExecutable(loc)) {
+      return { path: loc, source: 'system' }
+    }
+  }
+
+  return null
+}
+
+export function detectFrpcVersion(frpcPath: string): Promise<string | null> {
+  return new Promise((resolve) => {
+    execFile(frpcPath, ['-v'], { timeout: 5000 }, (error, stdout) => {
+      const match = stdout?.match(/\d+\.\d+\.\d+/)
+      resolve(error || !match ? null : match[0])
+    })
+  })
+}
+
+function hashFile(path: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha256')
+    createReadStream(path)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject)
+  })
+}
+
+export async function getFrpcBinaryInfo(customPath?: string): Promise<FrpcBinaryInfo | null> {
+  const binary = findFrpcBinary(customPath)
+  if (!binary) {
+    return null
+  }
+  const version = await detectFrpcVersion(binary.path)
+  return {
+    ...binary,
+    sha256: await hashFile(binary.path),
+    version,
+    supported: !version || compareVersions(version, MIN_FRPC_VERSION) >= 0,
+    configFormat: configFormatFor(version),
+    customTLSFirstByteDisabled: customTLSFirstByteDisabledFor(version)
+  }
+}
+
+// frp release archives are named by Go's OS and architecture, e.g. frp_0.61.1_linux_amd64.tar.gz.
+// Windows releases are zip files
+const GO_OS: Record<string, string> = { win32: 'windows' }
+const GO_ARCH: Record<string, string> = { x64: 'amd64', arm64: 'arm64', arm: 'arm' }
+
+// Extract frpc from an official release archive into userData, like
+// scripts/download-frpc.js does at build time but from a file the user already has
+export async function installFrpcArchive(archivePath: string): Promise<string> {
+  const match = basename(archivePath).match(/^frp_(\d+\.\d+\.\d+)_([a-z0-9]+)_([a-z0-9]+)\.(tar\.gz|zip)$/)
+  if (!match) {
+    throw new Error('Not an frp release archive, expected a file like frp_0.61.1_linux_amd64.tar.gz or frp_0.61.1_windows_amd64.zip')
+  }
+  const [, version, os, arch, extension] = match
+  const systemOS = GO_OS[process.platform] || process.platform
+  if (os !== systemOS || arch !== GO_ARCH[process.arch]) {
+    throw new Error(`This archive is for ${os}/${arch}, but this system is ${systemOS}/${GO_ARCH[process.arch] || process.arch}`)
+  }
+
+  const installPath = getInstalledFrpcPath()
+  const extractDir = join(dirname(installPath), 'extract')
+  rmSync(extractDir, { recursive: true, force: true })
+  mkdirSync(extractDir, { recursive: true })
+
+  try {
+    // The tar that ships with Windows is bsdtar, which reads zip files too
+    const extractFlags = extension === 'zip' ? '-xf' : '-xzf'
+    await execFileAsync('tar', [extractFlags, archivePath, '-C', extractDir, '--strip-components=1', `frp_${version}_${os}_${arch}/${FRPC_NAME}`])
+    const extracted = join(extractDir, FRPC_NAME)
+    chmodSync(extracted, 0o755)
+
+    // Make sure it runs before replacing a working binary
+    const extractedVersion = await detectFrpcVersion(extracted)
+    if (extractedVersion !== version) {
+      throw new Error(`The extracted frpc reports version ${extractedVersion || 'unknown'}, expected ${version}`)
+    }
+
+    renameSync(extracted, installPath)
+    return installPath
+  } finally {
+    rmSync(extractDir, { recursive: true, force: true })
+  }
+}
+
+// Negative when a is older than b
+export function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number)
+  const right = b.split('.').map(Number)
+  for (let i = 0; i < 3; i++) {
+    const difference = (left[i] || 0) - (right[i] || 0)
+    if (difference !== 0) {
+      return difference
+    }
+  }
+  return 0
+}
+
+// Unknown versions are assumed to be current
+export function configFormatFor(version: string | null): ConfigFormat {
+  return version && compareVersions(version, TOML_MIN_VERSION) < 0 ? 'ini' : 'toml'
+}
+
+export function customTLSFirstByteDisabledFor(version: string | null): boolean {
+  return !version || compareVersions(version, TLS_FIRST_BYTE_DISABLED_VERSION) >= 0
+}
@@ -0,0 +1,115 @@
+import { parseLogLine } from './frpc-log'
+
+export type FailureKind = 'auth' | 'port-conflict' | 'network' | 'config' | 'binary' | 'crash-loop' | 'unknown'
+
+// Why frpc stopped, in terms the user can act on
+export interface FailureDiagnosis {
+  kind: FailureKind
+  summary: string
+  advice: string
+  // Whether reconnecting can help, or the user has to change something first
+  retryable: boolean
+  // The frpc output line the diagnosis is based on
+  detail?: string
+}
+
+interface FailurePattern {
+  kind: FailureKind
+  pattern: RegExp
+  summary: string
+  advice: string
+  retryable: boolean
+}
+
+// Checked in order against each of frpc's last output lines, newest first. Messages are from frpc and frps 0.38 - 0.61
+const PATTERNS: FailurePattern[] = [
+  {
+    kind: 'auth',
+    pattern: /authorization failed|authentication failed|token in login doesn't match|invalid token|cannot fetch token|unauthorized/i,
+    summary: 'The server rejected the login',
+    advice: 'Check the auth token or OIDC settings against frps.toml',
+    retryable: false
+  },
+  {
+    kind: 'port-conflict',
+    pattern: /port already used|port unavailable|port not allowed|address already in use/i,
+    summary: 'A port frpc needs is already taken',
+    advice: 'Stop the program using the port named in the log, or pick another port',
+    retryable: false
+  },
+  {
+    kind: 'config',
+    // TLS handshake failures come from mismatched TLS settings, not the network
+    pattern: /parse config|load config|unmarshal|unknown field|toml:|json:|yaml:|invalid (config|proxy|visitor)|\btls: |x509: /i,
+    summary: 'frpc could not read its config',
+    advice: 'Fix the setting named in the log, or check frpc verify issues on the tunnel',
+    retryable: false
+  },
+  {
+    kind: 'network',
+    // Only frpc's own connection errors, e.g. "login to the server failed: EOF" or "dial tcp ...: connection refused"
+    pattern: /login to (the )?server failed|connect to server error|dial (tcp|udp)\b.*(connection refused|i\/o timeout|no such host|network is unreachable|no route to host|connection reset)/i,
+    summary: 'The server could not be reached',
+    advice: 'Check the server address, port and your network; reconnecting will keep trying',
+    retryable: true
+  }
+]
+
+// How many identical unexplained failures in a row count as a crash loop
+const CRASH_LOOP_REPEATS = 3
+
+// The newest line that explains the exit wins. Lines tagged with a proxy or visitor are
+// skipped: frpc keeps running after those fail to start, and frps reports proxies it still
+// holds from before a network drop as "already exists" until their heartbeat times out
+function matchOutput(outputTail: string[]): { pattern: FailurePattern; detail: string } | undefined {
+  for (const line of [...outputTail].reverse()) {
+    const { proxy, message } = parseLogLine(line)
+    if (proxy) continue
+    const pattern = PATTERNS.find(p => p.pattern.test(message))
+    if (pattern) {
+      return { pattern, detail: message }
+    }
+  }
+  return undefined
+}
+
+// Classify an unexpected frpc exit from its last output lines and exit code.
+// `previous` holds the diagnoses of the failures before this one in the current reconnect series
+export function diagnoseExit(outputTail: string[], exitCode: number | null, previous: FailureDiagnosis[]): FailureDiagnosis {
+  const match = matchOutput(outputTail)
+  if (match) {
+    const { kind, summary, advice, retryable } = match.pattern
+    return { kind, summary, advice, retryable, detail: match.detail }
+  }
+
+  const detail = outputTail.length > 0 ? parseLogLine(outputTail[outputTail.length - 1]).message : undefined
+  const repeats = previous.slice(-(CRASH_LOOP_REPEATS - 1))
+  if (repeats.length === CRASH_LOOP_REPEATS - 1 && repeats.every(d => d.kind === 'unknown' && d.detail === detail)) {
+    return {
+      kind: 'crash-loop',
+      summary: `frpc keeps exiting with the same error (${CRASH_LOOP_REPEATS} times in a row)`,
+      advice: 'Reconnecting stopped. Check the log, then start again',
+      retryable: false,
+      detail
+    }
+  }
+
+  return {
+    kind: 'unknown',
+    summary: exitCode === null ? 'frpc was killed' : `frpc exited with code ${exitCode}`,
+    advice: 'See the log for details',
+    retryable: true,
+    detail
+  }
+}
+
+// frpc could not be started at all
+export function diagnoseSpawnError(error: NodeJS.ErrnoException): FailureDiagnosis {
+  return {
+    kind: 'binary',
+    summary: `frpc could not be started (${error.code || error.message})`,
+    advice: 'Choose a working frpc binary or install one in Settings',
+    retryable: false,
+    detail: error.message
+  }
+}
@@ -0,0 +1,498 @@
+import { basename, extname } from 'path'
+import { parse as parseToml } from 'smol-toml'
+import { parse as parseYaml } from 'yaml'
+import {
+  AuthScope,
+  OutboundProxy,
+  ProxyType,
+  ServerProfile,
+  ServerTransport,
+  Tunnel,
+  TunnelPlugin,
+  TunnelPluginType,
+  TunnelType,
+  Visitor,
+  VisitorType,
+  isSecretTunnel,
+  isVhostTunnel,
+  pluginTypesFor
+} from './config-manager'
+
+export type NativeConfigFormat = 'toml' | 'ini' | 'yaml' | 'json'
+
+export interface SkippedEntry {
+  name: string
+  kind: 'proxy' | 'visitor'
+  reason: string
+}
+
+export type ImportedSettings = Pick<
+  ServerProfile,
+  'serverAddr' | 'serverPort' | 'authMethod' | 'authToken' | 'oidc' | 'authAdditionalScopes' | 'transport'
+>
+
+// What a hand-written frpc config turns into, shown to the user before anything is saved
+export interface FrpcConfigImport {
+  fileName: string
+  format: NativeConfigFormat
+  settings: ImportedSettings
+  tunnels: Omit<Tunnel, 'id'>[]
+  visitors: Omit<Visitor, 'id'>[]
+  skipped: SkippedEntry[]
+  warnings: string[]
+}
+
+type Flat = Record<string, unknown>
+
+const TUNNEL_TYPES: TunnelType[] = ['tcp', 'udp', 'http', 'https', 'stcp', 'sudp', 'xtcp']
+const VISITOR_TYPES: VisitorType[] = ['stcp', 'sudp', 'xtcp']
+const PLUGIN_TYPES: TunnelPluginType[] = ['static_file', 'socks5', 'http_proxy', 'unix_domain_socket', 'https2http', 'https2https']
+
+const GLOBAL_KEYS = [
+  'serverAddr', 'serverPort', 'auth.method', 'auth.token', 'auth.additionalScopes',
+  'auth.oidc.clientID', 'auth.oidc.clientSecret', 'auth.oidc.audience', 'auth.oidc.scope', 'auth.oidc.tokenEndpointURL',
+  'transport.protocol', 'transport.proxyURL', 'transport.tcpMux', 'transport.poolCount',
+  'transport.heartbeatInterval', 'transport.heartbeatTimeout', 'transport.tls.enable', 'transport.tls.certFile',
+  'transport.tls.keyFile', 'transport.tls.trustedCaFile', 'transport.tls.serverName', 'transport.tls.disableCustomTLSFirstByte'
+]
+
+const PROXY_KEYS = [
+  'name', 'type', 'enabled', 'localIP', 'localPort', 'remotePort', 'customDomains', 'subdomain', 'locations',
+  'hostHeaderRewrite', 'httpUser', 'httpPassword', 'secretKey', 'allowUsers',
+  'transport.useEncryption', 'transport.useCompression', 'transport.bandwidthLimit', 'transport.bandwidthLimitMode',
+  'transport.proxyProtocolVersion', 'loadBalancer.group', 'loadBalancer.groupKey',
+  'healthCheck.type', 'healthCheck.path', 'healthCheck.intervalSeconds', 'healthCheck.timeoutSeconds', 'healthCheck.maxFailed',
+  'plugin.type', 'plugin.localPath', 'plugin.stripPrefix', 'plugin.httpUser', 'plugin.httpPassword', 'plugin.username',
+  'plugin.password', 'plugin.unixPath', 'plugin.localAddr', 'plugin.crtPath', 'plugin.keyPath', 'plugin.hostHeaderRewrite'
+]
+
+const VISITOR_KEYS = [
+  'name', 'type', 'enabled', 'serverName', 'serverUser', 'secretKey', 'bindAddr', 'bindPort', 'fallbackTo', 'fallbackTimeoutMs'
+]
+
+// Informational keys frps never acts on, dropped without skipping the entry
+const IGNORED_PREFIXES = ['annotations.', 'metadatas.']
+
+// Legacy INI keys and where they live in the current format
+const INI_COMMON_KEYS: Record<string, string> = {
+  server_addr: 'serverAddr',
+  server_port: 'serverPort',
+  authentication_method: 'auth.method',
+  token: 'auth.token',
+  oidc_client_id: 'auth.oidc.clientID',
+  oidc_client_secret: 'auth.oidc.clientSecret',
+  oidc_audience: 'auth.oidc.audience',
+  oidc_scope: 'auth.oidc.scope',
+  oidc_token_endpoint_url: 'auth.oidc.tokenEndpointURL',
+  protocol: 'transport.protocol',
+  http_proxy: 'transport.proxyURL',
+  tcp_mux: 'transport.tcpMux',
+  pool_count: 'transport.poolCount',
+  heartbeat_interval: 'transport.heartbeatInterval',
+  heartbeat_timeout: 'transport.heartbeatTimeout',
+  tls_enable: 'transport.tls.enable',
+  tls_cert_file: 'transport.tls.certFile',
+  tls_key_file: 'transport.tls.keyFile',
+  tls_trusted_ca_file: 'transport.tls.trustedCaFile',
+  tls_server_name: 'transport.tls.serverName',
+  disable_custom_tls_first_byte: 'transport.tls.disableCustomTLSFirstByte'
+}
+
+const INI_PROXY_KEYS: Record<string, string> = {
+  type: 'type',
+  local_ip: 'localIP',
+  local_port: 'localPort',
+  remote_port: 'remotePort',
+  custom_domains: 'customDomains',
+  subdomain: 'subdomain',
+  locations: 'locations',
+  host_header_rewrite: 'hostHeaderRewrite',
+  http_user: 'httpUser',
+  http_pwd: 'httpPassword',
+  sk: 'secretKey',
+  allow_users: 'allowUsers',
+  use_encryption: 'transport.useEncryption',
+  use_compression: 'transport.useCompression',
+  bandwidth_limit: 'transport.bandwidthLimit',
+  bandwidth_limit_mode: 'transport.bandwidthLimitMode',
+  proxy_protocol_version: 'transport.proxyProtocolVersion',
+  group: 'loadBalancer.group',
+  group_key: 'loadBalancer.groupKey',
+  health_check_type: 'healthCheck.type',
+  health_check_url: 'healthCheck.path',
+  health_check_interval_s: 'healthCheck.intervalSeconds',
+  health_check_timeout_s: 'healthCheck.timeoutSeconds',
+  health_check_max_failed: 'healthCheck.maxFailed',
+  plugin: 'plugin.type',
+  plugin_local_path: 'plugin.localPath',
+  plugin_strip_prefix: 'plugin.stripPrefix',
+  plugin_http_user: 'plugin.httpUser',
+  plugin_http_passwd: 'plugin.httpPassword',
+  plugin_user: 'plugin.username',
+  plugin_passwd: 'plugin.password',
+  plugin_unix_path: 'plugin.unixPath',
+  plugin_local_addr: 'plugin.localAddr',
+  plugin_crt_path: 'plugin.crtPath',
+  plugin_key_path: 'plugin.keyPath',
+  plugin_host_header_rewrite: 'plugin.hostHeaderRewrite',
+  // visitors
+  server_name: 'serverName',
+  server_user: 'serverUser',
+  bind_addr: 'bindAddr',
+  bind_port: 'bindPort',
+  fallback_to: 'fallbackTo',
+  fallback_timeout_ms: 'fallbackTimeoutMs'
+}
+
+const FORMATS: Record<string, NativeConfigFormat> = {
+  '.toml': 'toml',
+  '.ini': 'ini',
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+  '.json': 'json'
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// Nested tables become dotted keys; arrays stay whole
+function flatten(value: Record<string, unknown>, prefix = ''): Flat {
+  const flat: Flat = {}
+  for (const [key, child] of Object.entries(value)) {
+    if (isObject(child)) {
+      Object.assign(flat, flatten(child, `${prefix}${key}.`))
+    } else {
+      flat[`${prefix}${key}`] = child
+    }
+  }
+  return flat
+}
+
+// INI values are all strings, so every reader accepts both
+const str = (value: unknown): string | undefined => value === undefined || value === '' ? undefined : String(value)
+const num = (value: unknown): number | undefined => {
+  const parsed = Number(value)
+  return value === undefined || value === '' || isNaN(parsed) ? undefined : parsed
+}
+const bool = (value: unknown): boolean | undefined => value === undefined ? undefined : value === true || value === 'true'
+const list = (value: unknown): string[] | undefined => {
+  const items = Array.isArray(value) ? value.map(String) : str(value)?.split(',').map(item => item.trim())
+  return items?.length ? items.filter(Boolean) : undefined
+}
+
+// Drop unset optional fields so the preview and stored config stay clean
+function compact<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T
+}
+
+function parseIni(content: string): Record<string, unknown> {
+  const sections: Record<string, Record<string, string>> = {}
+  let current: Record<string, string> | null = null
+
+  for (const raw of content.split(/\r?\n/)) {
+    const line = raw.trim()
+    if (!line || line.startsWith('#') || line.startsWith(';')) continue
+
+    const section = line.match(/^\[(.+)\]$/)
+    if (section) {
+      current = sections[section[1].trim()] = {}
+      continue
+    }
+    const separator = line.indexOf('=')
+    if (current && separator > 0) {
+      current[line.slice(0, separator).trim()] = line.slice(separator + 1).trim()
+    }
+  }
+
+  // Rebuild the current format's shape so both go through the same mapping
+  const config: Record<string, unknown> = {}
+  const proxies: Flat[] = []
+  const visitors: Flat[] = []
+
+  for (const [key, value] of Object.entries(sections.common || {})) {
+    if (key === 'authenticate_heartbeats' || key === 'authenticate_new_work_conns') {
+      if (value === 'true') {
+        const scopes = (config['auth.additionalScopes'] as string[] | undefined) || []
+        config['auth.additionalScopes'] = [...scopes, key === 'authenticate_heartbeats' ? 'HeartBeats' : 'NewWorkConns']
+      }
+      continue
+    }
+    config[INI_COMMON_KEYS[key] || key] = value
+  }
+
+  for (const [name, section] of Object.entries(sections)) {
+    if (name === 'common') continue
+    const entry: Flat = { name }
+    for (const [key, value] of Object.entries(section)) {
+      if (key === 'role') continue
+      if (key.startsWith('header_')) {
+        entry[`requestHeaders.set.${key.slice(7)}`] = value
+      } else {
+        entry[INI_PROXY_KEYS[key] || key] = value
+      }
+    }
+    ;(section.role === 'visitor' ? visitors : proxies).push(entry)
+  }
+
+  return { ...config, proxies, visitors }
+}
+
+function parseContent(content: string, format: NativeConfigFormat): Record<string, unknown> {
+  switch (format) {
+    case 'toml':
+      return parseToml(content) as Record<string, unknown>
+    case 'yaml':
+      return parseYaml(content) || {}
+    case 'json':
+      return JSON.parse(content)
+    case 'ini':
+      return parseIni(content)
+  }
+}
+
+function parseProxyURL(url: string): OutboundProxy | undefined {
+  try {
+    const parsed = new URL(url)
+    const type = parsed.protocol.replace(':', '') as ProxyType
+    if (!['http', 'socks5', 'ntlm'].includes(type)) return undefined
+    return compact({
+      type,
+      host: parsed.hostname,
+      port: parseInt(parsed.port) || 8080,
+      username: parsed.username ? decodeURIComponent(parsed.username) : undefined,
+      password: parsed.password ? decodeURIComponent(parsed.password) : undefined
+    })
+  } catch {
+    return undefined
+  }
+}
+
+function mapSettings(flat: Flat, format: NativeConfigFormat, warnings: string[]): ImportedSettings {
+  const protocol = str(flat['transport.protocol']) || 'tcp'
+  const transport: ServerTransport = compact({
+    protocol: (['tcp', 'kcp', 'quic', 'websocket', 'wss'].includes(protocol) ? protocol : 'tcp') as ServerTransport['protocol'],
+    tcpMux: bool(flat['transport.tcpMux']),
+    poolCount: num(flat['transport.poolCount']),
+    heartbeatInterval: num(flat['transport.heartbeatInterval']),
+    heartbeatTimeout: num(flat['transport.heartbeatTimeout']),
+    tls: compact({
+      // TLS is on by default since frp 0.50, the first release to read anything but INI
+      enable: bool(flat['transport.tls.enable']) ?? format !== 'ini',
+      certFile: str(flat['transport.tls.certFile']),
+      keyFile: str(flat['transport.tls.keyFile']),
+      trustedCaFile: str(flat['transport.tls.trustedCaFile']),
+      serverName: str(flat['transport.tls.serverName']),
+      disableCustomTLSFirstByte: bool(flat['transport.tls.disableCustomTLSFirstByte'])
+    })
+  })
+  if (protocol !== transport.protocol) {
+    warnings.push(`Transport protocol "${protocol}" is not supported, TCP is used instead`)
+  }
+
+  const proxyURL = str(flat['transport.proxyURL'])
+  if (proxyURL) {
+    transport.proxy = parseProxyURL(proxyURL)
+    if (!transport.proxy) {
+      warnings.push(`Proxy URL "${proxyURL}" is not an http, socks5 or ntlm URL and was dropped`)
+    }
+  }
+
+  return compact({
+    serverAddr: str(flat.serverAddr) || '',
+    serverPort: num(flat.serverPort) || 7000,
+    authMethod: str(flat['auth.method']) === 'oidc' ? 'oidc' as const : 'token' as const,
+    authToken: str(flat['auth.token']) || '',
+    oidc: compact({
+      clientId: str(flat['auth.oidc.clientID']) || '',
+      clientSecret: str(flat['auth.oidc.clientSecret']) || '',
+      audience: str(flat['auth.oidc.audience']),
+      scope: str(flat['auth.oidc.scope']),
+      tokenEndpointURL: str(flat['auth.oidc.tokenEndpointURL']) || ''
+    }),
+    authAdditionalScopes: list(flat['auth.additionalScopes']) as AuthScope[] | undefined,
+    transport
+  })
+}
+
+// Keys the app cannot represent; an entry carrying any of them is skipped rather than imported half-way
+function unsupportedKeys(flat: Flat, known: string[]): string[] {
+  return Object.keys(flat).filter(key =>
+    !known.includes(key)
+    && !key.startsWith('requestHeaders.set.')
+    && !IGNORED_PREFIXES.some(prefix => key.startsWith(prefix)))
+}
+
+function mapPlugin(flat: Flat): TunnelPlugin {
+  const type = flat['plugin.type'] as TunnelPluginType
+  switch (type) {
+    case 'static_file':
+      return compact({
+        type,
+        localPath: str(flat['plugin.localPath']) || '',
+        stripPrefix: str(flat['plugin.stripPrefix']),
+        httpUser: str(flat['plugin.httpUser']),
+        httpPassword: str(flat['plugin.httpPassword'])
+      })
+    case 'socks5':
+      return compact({ type, username: str(flat['plugin.username']), password: str(flat['plugin.password']) })
+    case 'http_proxy':
+      return compact({ type, httpUser: str(flat['plugin.httpUser']), httpPassword: str(flat['plugin.httpPassword']) })
+    case 'unix_domain_socket':
+      return { type, unixPath: str(flat['plugin.unixPath']) || '' }
+    case 'https2http':
+    case 'https2https':
+      return compact({
+        type,
+        localAddr: str(flat['plugin.localAddr']) || '',
+        crtPath: str(flat['plugin.crtPath']),
+        keyPath: str(flat['plugin.keyPath']),
+        hostHeaderRewrite: str(flat['plugin.hostHeaderRewrite'])
+      })
+  }
+}
+
+function mapTunnel(flat: Flat): Omit<Tunnel, 'id'> | string {
+  if (String(flat.name).startsWith('range:')) {
+    return 'Port range sections are not supported'
+  }
+  const type = str(flat.type) as TunnelType
+  if (!TUNNEL_TYPES.includes(type)) {
+    return `Proxy type "${flat.type}" is not supported`
+  }
+  const pluginType = str(flat['plugin.type']) as TunnelPluginType | undefined
+  if (pluginType && !PLUGIN_TYPES.includes(pluginType)) {
+    return `Plugin "${pluginType}" is not supported`
+  }
+  if (pluginType && !pluginTypesFor(type).includes(pluginType)) {
+    return `Plugin "${pluginType}" cannot be used with ${type} proxies`
+  }
+  const unsupported = unsupportedKeys(flat, PROXY_KEYS)
+  if (unsupported.length > 0) {
+    return `Unsupported options: ${unsupported.join(', ')}`
+  }
+
+  const requestHeaders: Record<string, string> = {}
+  for (const [key, value] of Object.entries(flat)) {
+    if (key.startsWith('requestHeaders.set.')) {
+      requestHeaders[key.slice('requestHeaders.set.'.length)] = String(value)
+    }
+  }
+
+  return compact({
+    name: String(flat.name),
+    type,
+    localIP: str(flat.localIP) || '127.0.0.1',
+    localPort: num(flat.localPort) || 0,
+    remotePort: isVhostTunnel({ type }) || isSecretTunnel({ type }) ? 0 : num(flat.remotePort) || 0,
+    enabled: bool(flat.enabled) ?? true,
+    customDomains: list(flat.customDomains),
+    subdomain: str(flat.subdomain),
+    locations: list(flat.locations),
+    hostHeaderRewrite: str(flat.hostHeaderRewrite),
+    httpUser: str(flat.httpUser),
+    httpPassword: str(flat.httpPassword),
+    requestHeaders: Object.keys(requestHeaders).length > 0 ? requestHeaders : undefined,
+    secretKey: str(flat.secretKey),
+    allowUsers: list(flat.allowUsers),
+    transport: Object.keys(flat).some(key => key.startsWith('transport.')) ? compact({
+      useEncryption: bool(flat['transport.useEncryption']),
+      useCompression: bool(flat['transport.useCompression']),
+      bandwidthLimit: str(flat['transport.bandwidthLimit']),
+      bandwidthLimitMode: str(flat['transport.bandwidthLimitMode']) as 'client' | 'server' | undefined,
+      proxyProtocolVersion: str(flat['transport.proxyProtocolVersion']) as 'v1' | 'v2' | undefined
+    }) : undefined,
+    plugin: pluginType ? mapPlugin(flat) : undefined,
+    healthCheck: flat['healthCheck.type'] ? compact({
+      type: str(flat['healthCheck.type']) === 'http' ? 'http' as const : 'tcp' as const,
+      path: str(flat['healthCheck.path']),
+      intervalSeconds: num(flat['healthCheck.intervalSeconds']),
+      timeoutSeconds: num(flat['healthCheck.timeoutSeconds']),
+      maxFailed: num(flat['healthCheck.maxFailed'])
+    }) : undefined,
+    loadBalancer: flat['loadBalancer.group'] ? {
+      group: String(flat['loadBalancer.group']),
+      groupKey: str(flat['loadBalancer.groupKey']) || ''
+    } : undefined
+  })
+}
+
+function mapVisitor(flat: Flat): Omit<Visitor, 'id'> | string {
+  const type = str(flat.type) as VisitorType
+  if (!VISITOR_TYPES.includes(type)) {
+    return `Visitor type "${flat.type}" is not supported`
+  }
+  const unsupported = unsupportedKeys(flat, VISITOR_KEYS)
+  if (unsupported.length > 0) {
+    return `Unsupported options: ${unsupported.join(', ')}`
+  }
+
+  return compact({
+    name: String(flat.name),
+    type,
+    serverName: str(flat.serverName) || '',
+    serverUser: str(flat.serverUser),
+    secretKey: str(flat.secretKey) || '',
+    bindAddr: str(flat.bindAddr) || '127.0.0.1',
+    bindPort: num(flat.bindPort) || 0,
+    enabled: bool(flat.enabled) ?? true,
+    fallbackTo: str(flat.fallbackTo),
+    fallbackTimeoutMs: num(flat.fallbackTimeoutMs)
+  })
+}
+
+// Parse a hand-written frpc config (TOML, legacy INI, YAML or JSON) into what the app can store
+export function parseFrpcConfig(filePath: string, content: string): FrpcConfigImport {
+  const format = FORMATS[extname(filePath).toLowerCase()]
+  if (!format) {
+    throw new Error('Unsupported file type, expected .toml, .ini, .yaml, .yml or .json')
+  }
+  if (content.includes('{{')) {
+    throw new Error('Config uses templates ({{ ... }}), which cannot be imported. Render it first')
+  }
+
+  const parsed = parseContent(content, format)
+  if (!isObject(parsed)) {
+    throw new Error('Config file is empty or not a table')
+  }
+  const { proxies, visitors, ...globals } = parsed
+
+  const warnings: string[] = []
+  const flatGlobals = flatten(globals)
+  const ignored = Object.keys(flatGlobals).filter(key => !GLOBAL_KEYS.includes(key))
+  if (ignored.length > 0) {
+    warnings.push(`Ignored settings: ${ignored.join(', ')}`)
+  }
+
+  const result: FrpcConfigImport = {
+    fileName: basename(filePath),
+    format,
+    settings: mapSettings(flatGlobals, format, warnings),
+    tunnels: [],
+    visitors: [],
+    skipped: [],
+    warnings
+  }
+
+  const entries = (value: unknown): Flat[] => Array.isArray(value) ? value.filter(isObject).map(entry => flatten(entry)) : []
+
+  for (const flat of entries(proxies)) {
+    const tunnel = mapTunnel(flat)
+    if (typeof tunnel === 'string') {
+      result.skipped.push({ name: String(flat.name ?? '(unnamed)'), kind: 'proxy', reason: tunnel })
+    } else {
+      result.tunnels.push(tunnel)
+    }
+  }
+
+  for (const flat of entries(visitors)) {
+    const visitor = mapVisitor(flat)
+    if (typeof visitor === 'string') {
+      result.skipped.push({ name: String(flat.name ?? '(unnamed)'), kind: 'visitor', reason: visitor })
+    } else {
+      result.visitors.push(visitor)
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,124 @@
+import { execFile } from 'child_process'
+import { EventEmitter } from 'events'
+import { chmodSync, existsSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { AdminServer } from './config-manager'
+import { ConfigFormat } from './frpc-binary'
+
+// Written next to the config while the GUI runs frpc, so a frpc that outlives the app
+// (crash, SIGKILL) can be found on the next launch. Holds the admin API credentials
+export interface FrpcLock {
+  pid: number
+  frpcPath: string
+  configPath: string
+  configFormat: ConfigFormat
+  adminServer: AdminServer
+  startedAt: number
+}
+
+export function writeFrpcLock(path: string, lock: FrpcLock): void {
+  writeFileSync(path, JSON.stringify(lock, null, 2), { mode: 0o600 })
+  chmodSync(path, 0o600)
+}
+
+export function readFrpcLock(path: string): FrpcLock | null {
+  try {
+    const lock = JSON.parse(readFileSync(path, 'utf-8'))
+    return typeof lock.pid === 'number' && typeof lock.configPath === 'string' && lock.adminServer ? lock : null
+  } catch {
+    return null
+  }
+}
+
+export function removeFrpcLock(path: string): void {
+  rmSync(path, { force: true })
+}
+
+export function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0)
+    return true
+  } catch (error) {
+    // EPERM: the process exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM'
+  }
+}
+
+// The command line a process was started with, or null when it can't be read
+function processCommandLine(pid: number): Promise<string | null> {
+  const [command, args] = process.platform === 'win32'
+    ? ['powershell.exe', ['-NoProfile', '-Command', `(Get-CimInstance Win32_Process -Filter "ProcessId=${pid}").CommandLine`]]
+    : ['ps', ['-p', String(pid), '-o', 'command=']]
+  return new Promise((resolve) => {
+    execFile(command, args, { timeout: 5000 }, (error, stdout) => {
+      resolve(error ? null : stdout.trim() || null)
+    })
+  })
+}
+
+// The frpc a lock file describes, if it is still running. The pid may have been
+// reused since, so the process must also be running our generated config.
+// Stale lock files are removed
+export async function findOrphanedFrpc(lockPath: string): Promise<FrpcLock | null> {
+  if (!existsSync(lockPath)) return null
+
+  const lock = readFrpcLock(lockPath)
+  const commandLine = lock && isProcessAlive(lock.pid) ? await processCommandLine(lock.pid) : null
+  if (!lock || !commandLine?.includes(lock.configPath)) {
+    removeFrpcLock(lockPath)
+    return null
+  }
+  return lock
+}
+
+// Stop a frpc the app did not spawn: SIGTERM, then SIGKILL if it is still there after 5s
+export async function killOrphanedFrpc(lock: FrpcLock, lockPath: string): Promise<boolean> {
+  const waitForExit = async (ms: number) => {
+    for (let waited = 0; waited < ms; waited += 200) {
+      if (!isProcessAlive(lock.pid)) return true
+      await new Promise(resolve => setTimeout(resolve, 200))
+    }
+    return !isProcessAlive(lock.pid)
+  }
+
+  try {
+    process.kill(lock.pid, 'SIGTERM')
+    if (!await waitForExit(5000)) {
+      process.kill(lock.pid, 'SIGKILL')
+      await waitForExit(2000)
+    }
+  } catch {
+    // Exited on its own in between
+  }
+
+  const stopped = !isProcessAlive(lock.pid)
+  if (stopped) {
+    removeFrpcLock(lockPath)
+  }
+  return stopped
+}
+
+// Stands in for the ChildProcess of an adopted frpc. There is no exit event for a
+// process we didn't spawn, so liveness is polled; exit code and signal are unknown
+export class AdoptedProcess extends EventEmitter {
+  readonly pid: number
+  private timer: NodeJS.Timeout
+
+  constructor(pid: number) {
+    super()
+    this.pid = pid
+    this.timer = setInterval(() => {
+      if (!isProcessAlive(pid)) {
+        clearInterval(this.timer)
+        this.emit('exit', null, null)
+      }
+    }, 1000)
+  }
+
+  kill(signal: NodeJS.Signals = 'SIGTERM'): boolean {
+    try {
+      return process.kill(this.pid, signal)
+    } catch {
+      return false
+    }
+  }
+}
@@ -0,0 +1,54 @@
+export type LogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error'
+
+// One line of frpc output. Lines that are not in frpc's log format only carry `message`
+export interface LogLine {
+  timestamp?: string
+  level?: LogLevel
+  // Go source location that logged the line, e.g. proxy/proxy_manager.go:156
+  source?: string
+  proxy?: string
+  message: string
+  // Written by the GUI itself rather than by frpc
+  gui?: boolean
+}
+
+const LEVELS: Record<string, LogLevel> = {
+  T: 'trace',
+  D: 'debug',
+  I: 'info',
+  W: 'warn',
+  E: 'error'
+}
+
+// 2024-03-06 10:00:00.123 [I] [proxy/proxy_manager.go:156] [6f2c5fb8e4c8a1d2] [ssh] start proxy success
+// Versions before 0.52 use 2024/03/06 and no milliseconds
+const LINE_PATTERN = /^(\d{4}[-/]\d{2}[-/]\d{2} \d{2}:\d{2}:\d{2}(?:\.\d+)?) \[([TDIWE])\] \[([^\]]+)\] (.*)$/
+// Log prefixes frpc adds to a message: the run id once logged in, then the proxy or visitor name
+const RUN_ID_PATTERN = /^\[[0-9a-f]{16}\] /
+const PROXY_PATTERN = /^\[([^\]\s]+)\] /
+
+// frpc colors its console output
+const ANSI_PATTERN = /\x1b\[[0-9;]*m/g
+
+export function parseLogLine(line: string): LogLine {
+  if (line.startsWith('[GUI] ')) {
+    return { level: 'info', message: line.slice(6), gui: true }
+  }
+  // stderr output, and errors the GUI reports on frpc's behalf
+  if (line.startsWith('[ERR] ')) {
+    return { ...parseLogLine(line.slice(6)), level: 'error' }
+  }
+
+  const match = line.replace(ANSI_PATTERN, '').match(LINE_PATTERN)
+  if (!match) {
+    return { message: line }
+  }
+
+  const [, timestamp, level, source, rest] = match
+  let message = rest.replace(RUN_ID_PATTERN, '')
+  const proxy = message.match(PROXY_PATTERN)?.[1]
+  if (proxy) {
+    message = message.slice(proxy.length + 3)
+  }
+  return { timestamp, level: LEVELS[level], source, proxy, message }
+}
@@ -1,211 +1,619 @@
-import { spawn, ChildProcess, execSync } from 'child_process'
+import { spawn, execSync } from 'child_process'
 import { EventEmitter } from 'events'
-import { existsSync } from 'fs'
-import { Notification, app } from 'electron'
-import { ConfigManager } from './config-manager'
-import { join, dirname } from 'path'
+import { readFileSync } from 'fs'
+import { Notification } from 'electron'
+import { AdminServer, ConfigManager, ReconnectPolicy, ServerTransport, Tunnel } from './config-manager'
 import * as net from 'net'
+import * as tls from 'tls'
+import { openConnection } from './proxy-connect'
+import { FrpcAdminClient, ProxyStatus, createAdminServer } from './frpc-admin'
+import { parseLogLine } from './frpc-log'
+import { ConfigIssue, verifyFrpcConfig } from './frpc-verify'
+import { FailureDiagnosis, diagnoseExit, diagnoseSpawnError } from './frpc-diagnosis'
+import { LocalServiceState, connectLocalService, describeEndpoint, localEndpoint, probeLocalService } from './local-service'
+import { ReachabilityResult, describeBanner, readReply, sameBanner } from './reachability'
+import { AdoptedProcess, FrpcLock, removeFrpcLock, writeFrpcLock } from './frpc-lock'
+import {
+  ConfigFormat,
+  MIN_FRPC_VERSION,
+  TOML_MIN_VERSION,
+  compareVersions,
+  configFormatFor,
+  customTLSFirstByteDisabledFor,
+  detectFrpcVersion,
+  findFrpcBinary
+} from './frpc-binary'
 
 export interface FrpcStatus {
   running: boolean
   lastError: string | null
+  proxies: ProxyStatus[]
+  // What `frpc verify` rejected on the last start
+  configIssues: ConfigIssue[]
+  reconnect: ReconnectState | null
+  // Why frpc last stopped on its own, cleared once it connects again
+  diagnosis: FailureDiagnosis | null
+  // Keyed by tunnel id; tunnels without a probeable local service are missing
+  localServices: Record<string, LocalServiceState>
 }
 
+// A scheduled reconnect, for the countdown in the UI
+export interface ReconnectState {
+  attempt: number
+  maxAttempts: number       // 0 when retrying forever
+  at: number                // When the attempt starts, in epoch milliseconds
+}
+
+// Exponential backoff, randomized so clients that lost the same server don't all return at once
+function reconnectDelay(policy: ReconnectPolicy, attempt: number): number {
+  const delay = Math.min(policy.baseDelaySeconds * policy.multiplier ** (attempt - 1), policy.maxDelaySeconds)
+  const jitter = delay * policy.jitter * (Math.random() * 2 - 1)
+  return Math.max(0, Math.round((delay + jitter) * 1000))
+}
+
+// What the manager needs of frpc's process, so an adopted one can stand in for a spawned one
+interface FrpcProcess extends EventEmitter {
+  pid?: number
+  kill(signal?: NodeJS.Signals): boolean
+}
+
+// A start that threw or failed to spawn frpc, which may well work next time
+const START_ERROR: Omit<FailureDiagnosis, 'detail'> = {
+  kind: 'unknown',
+  summary: 'frpc could not be started',
+  advice: 'See the log for details',
+  retryable: true
+}
+
+export interface ConnectionTestResult {
+  success: boolean
+  error?: string
+  detail?: string
+}
+
+// Runs a single frpc child for one server profile
 export class FrpcManager extends EventEmitter {
-  private process: ChildProcess | null = null
+  private process: FrpcProcess | null = null
   private configManager: ConfigManager
+  private profileId: string
   private lastError: string | null = null
-  private autoReconnect: boolean = true
+  private reconnectPolicy: ReconnectPolicy
   private reconnectAttempts: number = 0
-  private maxReconnectAttempts: number = 5
-  private reconnectDelay: number = 5000
   private reconnectTimer: NodeJS.Timeout | null = null
+  private reconnectState: ReconnectState | null = null
+  // When the current frpc was spawned, to tell a stable run from a crash loop
+  private startedAt: number = 0
+  // Last lines frpc printed, to diagnose why it exited
+  private outputTail: string[] = []
+  // Diagnoses of the failures in the current reconnect series
+  private failures: FailureDiagnosis[] = []
+  private diagnosis: FailureDiagnosis | null = null
+  // Why the last start gave up before frpc ran, for a reconnect attempt to act on
+  private startFailure: FailureDiagnosis | null = null
+  private localServices: Record<string, LocalServiceState> = {}
+  private localProbeTimer: NodeJS.Timeout | null = null
+  // Tunnels waiting for their local service that have seen it up since frpc started
+  private releasedTunnels: Set<string> = new Set()
+  // Tunnels under a reachability check, whose local port may briefly be served by the check itself
+  private checkingTunnels: Set<string> = new Set()
   private intentionallyStopped: boolean = false
-
-  constructor(configManager: ConfigManager) {
+  // A start still preparing the config, shared by callers so only one frpc is spawned
+  private starting: Promise<boolean> | null = null
+  private adminServer: AdminServer | null = null
+  // Format the running frpc was started with, reused when reloading
+  private configFormat: ConfigFormat = 'toml'
+  // Secrets the running frpc was given in its environment; a reload can't add or change them
+  private secretEnv: Record<string, string> = {}
+  private admin: FrpcAdminClient | null = null
+  private statusPoller: NodeJS.Timeout | null = null
+  private proxyStatuses: ProxyStatus[] = []
+  private configIssues: ConfigIssue[] = []
+
+  constructor(configManager: ConfigManager, profileId: string) {
     super()
     this.configManager = configManager
+    this.profileId = profileId
+    this.reconnectPolicy = configManager.getReconnectPolicy()
   }
 
-  private showNotification(title: string, body: string) {
-    if (Notification.isSupported()) {
-      new Notification({ title, body }).show()
-    }
+  private get profileName(): string {
+    return this.configManager.getProfiles().find(p => p.id === this.profileId)?.name || 'FRP server'
   }
 
-  private findFrpcBinary(): string | null {
-    // Check bundled location first (for packaged app)
-    const bundledLocations = [
-      // Next to the executable (extraFiles)
-      join(dirname(app.getPath('exe')), 'frpc'),
-      // In resources (for some packaging methods)
-      join(process.resourcesPath || '', 'frpc'),
-      // Snap location ($SNAP env var)
-      join(process.env.SNAP || '', 'frpc'),
-      // Flatpak location
-      '/app/bin/frpc'
-    ]
-
-    // Check bundled locations first
-    for (const loc of bundledLocations) {
-      if (existsSync(loc)) {
-        return loc
-      }
-    }
-
-    // Check common system locations
-    const systemLocations = [
-      '/usr/local/bin/frpc',
-      '/usr/bin/frpc',
-      '/opt/frp-gui/frpc/frpc',
-      'frpc' // In PATH
-    ]
+  // Listeners receive parsed lines, see parseLogLine
+  private log(line: string) {
+    this.emit('log', parseLogLine(line))
+  }
 
-    for (const loc of systemLocations) {
-      if (loc === 'frpc' || existsSync(loc)) {
-        return loc
-      }
+  private showNotification(title: string, body: string) {
+    if (Notification.isSupported()) {
+      new Notification({ title, body }).show()
     }
-
-    return 'frpc' // Default to PATH lookup
   }
 
   async start(): Promise<boolean> {
     if (this.process) {
-      this.emit('log', '[GUI] FRP client is already running')
+      this.log('[GUI] FRP client is already running')
       return true
     }
-
-    // Clear reconnect timer if any
-    if (this.reconnectTimer) {
-      clearTimeout(this.reconnectTimer)
-      this.reconnectTimer = null
+    if (this.starting) {
+      return this.starting
     }
 
+    this.starting = this.launch().finally(() => {
+      this.starting = null
+    })
+    return this.starting
+  }
+
+  private failStart(error: string, diagnosis: Omit<FailureDiagnosis, 'detail'>): false {
+    this.lastError = error
+    this.emit('error', error)
+    this.startFailure = { ...diagnosis, detail: error }
+    return false
+  }
+
+  private async launch(): Promise<boolean> {
+    this.cancelReconnect()
     this.intentionallyStopped = false
+    this.startFailure = null
 
     // Validate config before starting
-    const validation = this.configManager.validateConfig()
+    const validation = this.configManager.validateConfig(this.profileId)
     if (!validation.valid) {
-      this.lastError = validation.errors.join('; ')
-      this.emit('error', this.lastError)
-      return false
+      return this.failStart(validation.errors.join('; '), {
+        kind: 'config',
+        summary: 'The profile settings are invalid',
+        advice: 'Fix them in Settings, then start again',
+        retryable: false
+      })
     }
 
-    // Write config file
-    const configPath = this.configManager.writeFrpcConfig()
-    this.emit('log', `[GUI] Config written to ${configPath}`)
-
     // Find frpc binary
-    const frpcPath = this.findFrpcBinary()
-    if (!frpcPath) {
-      this.lastError = 'frpc binary not found. Please install FRP.'
-      this.emit('error', this.lastError)
+    const customPath = this.configManager.getFrpcPath()
+    const binary = findFrpcBinary(customPath)
+    if (!binary) {
+      const error = customPath
+        ? `frpc binary ${customPath} is missing or not executable. Choose another one in Settings.`
+        : 'frpc binary not found. Please install FRP or choose a binary in Settings.'
+      return this.failStart(error, {
+        kind: 'binary',
+        summary: 'frpc was not found',
+        advice: 'Choose a working frpc binary or install one in Settings',
+        retryable: false
+      })
+    }
+    const frpcPath = binary.path
+
+    // The config format depends on what this frpc can read
+    const version = await detectFrpcVersion(frpcPath)
+    if (!version) {
+      this.log('[GUI] Could not determine the frpc version, assuming it reads TOML configs')
+    } else if (compareVersions(version, MIN_FRPC_VERSION) < 0) {
+      return this.failStart(`frpc ${version} is too old, version ${MIN_FRPC_VERSION} or newer is required`, {
+        kind: 'binary',
+        summary: `frpc ${version} is too old`,
+        advice: 'Install a newer frpc in Settings',
+        retryable: false
+      })
+    }
+    this.configFormat = configFormatFor(version)
+    if (this.configFormat === 'ini') {
+      this.log(`[GUI] frpc ${version} predates TOML support (${TOML_MIN_VERSION}), using the legacy INI format`)
+    }
+
+    // Write config file, with the admin API on a fresh port and credentials
+    this.adminServer = await createAdminServer()
+    this.admin = new FrpcAdminClient(this.adminServer)
+    this.releasedTunnels = new Set()
+    await this.probeLocalServices()
+    const held = this.heldTunnels()
+    if (held.length > 0) {
+      this.log(`[GUI] Waiting for the local service of ${held.map(t => `"${t.name}"`).join(', ')} before starting it`)
+    }
+    const config = this.configManager.writeFrpcConfig(this.profileId, this.adminServer, this.configFormat, held.map(t => t.id))
+    this.secretEnv = config.env
+    this.log(`[GUI] Config written to ${config.path}`)
+
+    // frpc knows rules validateConfig doesn't, so let it check the config before spawning
+    try {
+      const verification = await verifyFrpcConfig(frpcPath, config.path, config.content, config.env)
+      for (const warning of verification.warnings) {
+        this.log(`[GUI] frpc verify: ${warning}`)
+      }
+      this.setConfigIssues(verification.issues)
+      if (!verification.valid) {
+        const messages = verification.issues.map(issue => issue.message).join('; ')
+        this.stopLocalMonitoring()
+        return this.failStart(`frpc rejected the config: ${messages || 'unknown error'}`, {
+          kind: 'config',
+          summary: 'frpc rejected the config',
+          advice: 'Fix the issues shown on the tunnels, then start again',
+          retryable: false
+        })
+      }
+    } catch (error) {
+      this.log(`[GUI] Could not run frpc verify, starting anyway: ${(error as Error).message}`)
+    }
+
+    // stop() during the awaits above cancels the start
+    if (this.intentionallyStopped) {
+      this.log('[GUI] Start cancelled')
+      this.stopLocalMonitoring()
       return false
     }
 
-    this.emit('log', `[GUI] Starting frpc from ${frpcPath}`)
+    this.log(`[GUI] Starting frpc from ${frpcPath}`)
 
     try {
-      this.process = spawn(frpcPath, ['-c', configPath], {
-        stdio: ['ignore', 'pipe', 'pipe']
+      const child = spawn(frpcPath, ['-c', config.path], {
+        stdio: ['ignore', 'pipe', 'pipe'],
+        env: { ...process.env, ...config.env }
       })
+      this.process = child
 
       let connected = false
+      this.outputTail = []
 
-      this.process.stdout?.on('data', (data: Buffer) => {
+      child.stdout?.on('data', (data: Buffer) => {
         const lines = data.toString().trim().split('\n')
         for (const line of lines) {
-          this.emit('log', line)
+          this.log(line)
+          this.recordOutput(line)
           // Detect successful connection
           if (line.includes('login to server success') || line.includes('start proxy success')) {
             if (!connected) {
               connected = true
-              this.reconnectAttempts = 0
-              this.showNotification('FRP Connected', 'Successfully connected to FRP server')
+              this.setDiagnosis(null)
+              this.showNotification('FRP Connected', `Successfully connected to ${this.profileName}`)
             }
           }
         }
       })
 
-      this.process.stderr?.on('data', (data: Buffer) => {
+      child.stderr?.on('data', (data: Buffer) => {
         const lines = data.toString().trim().split('\n')
         for (const line of lines) {
-          this.emit('log', `[ERR] ${line}`)
+          this.log(`[ERR] ${line}`)
+          this.recordOutput(line)
         }
       })
 
-      this.process.on('error', (error: Error) => {
+      child.on('error', (error: Error) => {
         this.lastError = `Failed to start frpc: ${error.message}`
         this.emit('error', this.lastError)
         this.process = null
+        this.stopStatusPolling()
+        this.stopLocalMonitoring()
         this.emit('status', 'stopped')
-        this.handleDisconnect()
+        const diagnosis = diagnoseSpawnError(error)
+        this.setDiagnosis(diagnosis)
+        this.handleDisconnect(diagnosis)
       })
 
-      this.process.on('exit', (code: number | null, signal: string | null) => {
-        if (code !== 0 && code !== null) {
-          this.lastError = `frpc exited with code ${code}`
-          this.emit('error', this.lastError)
-        }
-        this.emit('log', `[GUI] frpc exited (code: ${code}, signal: ${signal})`)
-        this.process = null
-        this.emit('status', 'stopped')
-
-        if (connected) {
-          this.showNotification('FRP Disconnected', 'Connection to FRP server lost')
-        }
-
-        this.handleDisconnect()
-      })
+      child.on('exit', (code: number | null, signal: string | null) => this.handleExit(code, signal, connected))
 
       this.lastError = null
+      this.startedAt = Date.now()
+      if (child.pid) {
+        writeFrpcLock(this.lockPath, {
+          pid: child.pid,
+          frpcPath,
+          configPath: config.path,
+          configFormat: this.configFormat,
+          adminServer: this.adminServer,
+          startedAt: this.startedAt
+        })
+      }
+      this.startStatusPolling()
+      this.startLocalMonitoring()
       this.emit('status', 'running')
       return true
     } catch (error) {
-      this.lastError = `Failed to start frpc: ${error}`
-      this.emit('error', this.lastError)
+      this.stopLocalMonitoring()
+      return this.failStart(`Failed to start frpc: ${error}`, START_ERROR)
+    }
+  }
+
+  private handleExit(code: number | null, signal: string | null, connected: boolean) {
+    this.log(`[GUI] frpc exited (code: ${code}, signal: ${signal})`)
+    this.process = null
+    removeFrpcLock(this.lockPath)
+    this.stopStatusPolling()
+    this.stopLocalMonitoring()
+    this.emit('status', 'stopped')
+
+    if (this.intentionallyStopped) {
+      return
+    }
+
+    // Running long enough counts as recovered, so an occasional drop never exhausts the attempts
+    if (Date.now() - this.startedAt >= this.reconnectPolicy.stableUptimeSeconds * 1000) {
+      this.reconnectAttempts = 0
+      this.failures = []
+    }
+
+    const diagnosis = diagnoseExit(this.outputTail, code, this.failures)
+    this.lastError = diagnosis.detail ? `${diagnosis.summary}: ${diagnosis.detail}` : diagnosis.summary
+    this.emit('error', this.lastError)
+    this.setDiagnosis(diagnosis)
+
+    if (connected) {
+      this.showNotification('FRP Disconnected', `Connection to ${this.profileName} lost`)
+    }
+
+    this.handleDisconnect(diagnosis)
+  }
+
+  private get lockPath(): string {
+    return this.configManager.getFrpcLockPath(this.profileId)
+  }
+
+  // Take over a frpc that a previous run of the app left behind, see findOrphanedFrpc.
+  // Its output went to that run, so only the admin API and the process itself are available
+  adopt(lock: FrpcLock): boolean {
+    if (this.process || this.starting) {
       return false
     }
+
+    this.cancelReconnect()
+    this.intentionallyStopped = false
+    this.adminServer = lock.adminServer
+    this.admin = new FrpcAdminClient(lock.adminServer)
+    this.configFormat = lock.configFormat
+    // Whatever frpc was started with is live now, nothing is held back any more
+    this.releasedTunnels = new Set(this.configManager.getTunnels(this.profileId).map(t => t.id))
+    // Rewriting the unchanged config recovers the env frpc was given, so reloads still work
+    this.secretEnv = this.configManager.writeFrpcConfig(this.profileId, this.adminServer, this.configFormat).env
+    this.outputTail = []
+
+    const adopted = new AdoptedProcess(lock.pid)
+    adopted.on('exit', (code: number | null, signal: string | null) => this.handleExit(code, signal, true))
+    this.process = adopted
+
+    this.log(`[GUI] Adopted frpc (PID ${lock.pid}) left running by a previous session, its earlier output is not available`)
+    this.lastError = null
+    this.startedAt = lock.startedAt
+    this.startStatusPolling()
+    this.startLocalMonitoring()
+    this.emit('status', 'running')
+    return true
+  }
+
+  // frpc needs a moment before its admin API answers, failed polls are ignored
+  private startStatusPolling() {
+    this.stopStatusPolling()
+    this.statusPoller = setInterval(() => this.pollProxyStatuses(), 2000)
+  }
+
+  private async pollProxyStatuses() {
+    if (!this.admin) return
+
+    try {
+      const statuses = await this.admin.getProxyStatuses()
+      // frpc may have exited while the request was in flight
+      if (!this.process || JSON.stringify(statuses) === JSON.stringify(this.proxyStatuses)) {
+        return
+      }
+      const previous = this.proxyStatuses
+      this.proxyStatuses = statuses
+      this.emit('proxies', statuses)
+      this.checkStartedTunnels(previous)
+    } catch {
+      // Admin API not up yet, or frpc is exiting
+    }
+  }
+
+  // Run the end-to-end check for tunnels that asked for it once frpc reports them started
+  private checkStartedTunnels(previous: ProxyStatus[]) {
+    const started = this.proxyStatuses
+      .filter(p => p.state === 'running' && previous.find(q => q.name === p.name)?.state !== 'running')
+      .map(p => p.name)
+    const tunnels = this.configManager.getTunnels(this.profileId)
+      .filter(t => t.verifyOnStart && t.type === 'tcp' && started.includes(t.name))
+
+    for (const tunnel of tunnels) {
+      this.checkReachability(tunnel.id).then((result) => {
+        // frpc may have stopped while the check ran
+        if (!this.process) return
+        if (result.success) {
+          this.log(`[GUI] Tunnel "${tunnel.name}" is reachable: ${result.detail}`)
+        } else {
+          this.log(`[GUI] Tunnel "${tunnel.name}" is not reachable: ${result.error}`)
+          this.showNotification('Tunnel Unreachable', `${tunnel.name}: ${result.error}`)
+        }
+        this.emit('reachability', tunnel.id, result)
+      })
+    }
+  }
+
+  private stopStatusPolling() {
+    if (this.statusPoller) {
+      clearInterval(this.statusPoller)
+      this.statusPoller = null
+    }
+    if (this.proxyStatuses.length > 0) {
+      this.proxyStatuses = []
+      this.emit('proxies', [])
+    }
+  }
+
+  private startLocalMonitoring() {
+    this.stopLocalMonitoring()
+    this.localProbeTimer = setInterval(() => this.probeLocalServices(), 10000)
+  }
+
+  private stopLocalMonitoring() {
+    if (this.localProbeTimer) {
+      clearInterval(this.localProbeTimer)
+      this.localProbeTimer = null
+    }
+    if (Object.keys(this.localServices).length > 0) {
+      this.localServices = {}
+      this.emit('localServices', {})
+    }
+  }
+
+  // Enabled tunnels that wait for a local service which hasn't come up yet
+  private heldTunnels(): Tunnel[] {
+    return this.configManager.getTunnels(this.profileId).filter(t =>
+      t.enabled !== false && t.waitForLocalService && localEndpoint(t) && !this.releasedTunnels.has(t.id))
+  }
+
+  private async probeLocalServices() {
+    const tunnels = this.configManager.getTunnels(this.profileId).filter(t => t.enabled !== false)
+    const states: Record<string, LocalServiceState> = {}
+    const released: Tunnel[] = []
+
+    await Promise.all(tunnels.map(async (tunnel) => {
+      const endpoint = localEndpoint(tunnel)
+      if (!endpoint) return
+      if (this.checkingTunnels.has(tunnel.id)) {
+        states[tunnel.id] = this.localServices[tunnel.id]
+        return
+      }
+
+      const up = await probeLocalService(endpoint)
+      if (up && tunnel.waitForLocalService && !this.releasedTunnels.has(tunnel.id)) {
+        this.releasedTunnels.add(tunnel.id)
+        released.push(tunnel)
+      }
+      states[tunnel.id] = up ? 'up' : tunnel.waitForLocalService && !this.releasedTunnels.has(tunnel.id) ? 'waiting' : 'down'
+
+      if (!up && this.localServices[tunnel.id] === 'up') {
+        this.log(`[GUI] Local service of "${tunnel.name}" at ${describeEndpoint(endpoint)} is down`)
+        this.showNotification('Local Service Down', `Nothing is accepting connections at ${describeEndpoint(endpoint)} for tunnel "${tunnel.name}"`)
+      }
+    }))
+
+    // stop() may have run while the probes were in flight
+    if (this.intentionallyStopped) return
+
+    if (JSON.stringify(states) !== JSON.stringify(this.localServices)) {
+      this.localServices = states
+      this.emit('localServices', states)
+    }
+
+    // Released before frpc runs, the tunnels are simply part of the first config
+    if (released.length > 0 && this.process) {
+      this.log(`[GUI] Local service of ${released.map(t => `"${t.name}"`).join(', ')} is up, starting the tunnel`)
+      await this.reload()
+    }
   }
 
-  private handleDisconnect() {
-    if (this.intentionallyStopped || !this.autoReconnect) {
+  private handleDisconnect(diagnosis: FailureDiagnosis) {
+    const policy = this.reconnectPolicy
+    // A spawn error can be followed by an exit, schedule only once
+    if (this.intentionallyStopped || this.reconnectTimer) {
+      return
+    }
+
+    // Retrying a rejected token or a taken port only repeats the same failure
+    if (!diagnosis.retryable) {
+      this.log(`[GUI] Not reconnecting: ${diagnosis.summary}`)
+      this.showNotification(`FRP stopped: ${this.profileName}`, `${diagnosis.summary}. ${diagnosis.advice}`)
+      this.reconnectAttempts = 0
+      this.failures = []
       return
     }
 
-    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
-      this.emit('log', `[GUI] Max reconnect attempts (${this.maxReconnectAttempts}) reached`)
-      this.showNotification('FRP Reconnect Failed', 'Max reconnection attempts reached')
+    if (!policy.enabled) {
       return
     }
 
+    if (policy.maxAttempts > 0 && this.reconnectAttempts >= policy.maxAttempts) {
+      this.log(`[GUI] Giving up after ${policy.maxAttempts} reconnect attempts`)
+      this.showNotification('FRP Reconnect Failed', `Gave up reconnecting to ${this.profileName} after ${policy.maxAttempts} attempts`)
+      // Starting again by hand begins a fresh series
+      this.reconnectAttempts = 0
+      this.failures = []
+      return
+    }
+
+    this.failures.push(diagnosis)
     this.reconnectAttempts++
-    const delay = this.reconnectDelay * this.reconnectAttempts
+    const delay = reconnectDelay(policy, this.reconnectAttempts)
+    const limit = policy.maxAttempts > 0 ? `/${policy.maxAttempts}` : ''
 
-    this.emit('log', `[GUI] Attempting reconnect in ${delay / 1000}s (attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts})`)
+    this.log(`[GUI] Attempting reconnect in ${Math.round(delay / 1000)}s (attempt ${this.reconnectAttempts}${limit})`)
 
+    this.setReconnectState({ attempt: this.reconnectAttempts, maxAttempts: policy.maxAttempts, at: Date.now() + delay })
     this.reconnectTimer = setTimeout(() => {
-      this.start()
+      this.reconnectTimer = null
+      this.attemptReconnect()
     }, delay)
   }
 
-  async stop(): Promise<boolean> {
-    // Mark as intentionally stopped to prevent auto-reconnect
-    this.intentionallyStopped = true
+  // One attempt of the series, from the timer or "Retry now". A start that fails or throws
+  // before frpc runs goes back into the series, so reconnecting never stops silently
+  private async attemptReconnect(): Promise<boolean> {
+    try {
+      if (await this.start()) {
+        return true
+      }
+    } catch (error) {
+      this.failStart(`Failed to start frpc: ${(error as Error).message}`, START_ERROR)
+    }
+
+    // stop() cancelled the start
+    if (this.intentionallyStopped) {
+      return false
+    }
+    const diagnosis = this.startFailure ?? { ...START_ERROR, detail: this.lastError ?? undefined }
+    this.setDiagnosis(diagnosis)
+    this.handleDisconnect(diagnosis)
+    return false
+  }
 
-    // Clear any pending reconnect
+  private recordOutput(line: string) {
+    this.outputTail = [...this.outputTail.slice(-19), line]
+  }
+
+  private setDiagnosis(diagnosis: FailureDiagnosis | null) {
+    if (diagnosis !== this.diagnosis) {
+      this.diagnosis = diagnosis
+      this.emit('diagnosis', diagnosis)
+    }
+  }
+
+  private cancelReconnect() {
     if (this.reconnectTimer) {
       clearTimeout(this.reconnectTimer)
       this.reconnectTimer = null
     }
+    this.setReconnectState(null)
+  }
+
+  private setReconnectState(state: ReconnectState | null) {
+    if (state !== this.reconnectState) {
+      this.reconnectState = state
+      this.emit('reconnect', state)
+    }
+  }
+
+  // Skip the countdown of a scheduled reconnect
+  async retryNow(): Promise<boolean> {
+    return this.reconnectTimer ? this.attemptReconnect() : this.isRunning()
+  }
 
+  async stop(): Promise<boolean> {
+    // Mark as intentionally stopped to prevent auto-reconnect
+    this.intentionallyStopped = true
+    this.reconnectAttempts = 0
+    this.failures = []
+    this.cancelReconnect()
+    this.setDiagnosis(null)
+
+    // A start in flight sees the flag and gives up before spawning, or spawns before it is checked
+    if (this.starting) {
+      await this.starting
+    }
     if (!this.process) {
-      this.emit('log', '[GUI] FRP client is not running')
+      this.log('[GUI] FRP client is not running')
       return true
     }
 
-    this.emit('log', '[GUI] Stopping frpc...')
+    this.log('[GUI] Stopping frpc...')
 
     return new Promise((resolve) => {
       if (!this.process) {
@@ -215,7 +623,7 @@ export class FrpcManager extends EventEmitter {
 
       const timeout = setTimeout(() => {
         if (this.process) {
-          this.emit('log', '[GUI] Force killing frpc...')
+          this.log('[GUI] Force killing frpc...')
           this.process.kill('SIGKILL')
         }
       }, 5000)
@@ -231,6 +639,41 @@ export class FrpcManager extends EventEmitter {
     })
   }
 
+  // Apply tunnel and visitor changes through the admin API, so other tunnels keep their connections
+  async reload(): Promise<{ success: boolean; error?: string }> {
+    if (!this.process || !this.admin || !this.adminServer) {
+      return { success: false, error: 'FRP client is not running' }
+    }
+
+    const validation = this.configManager.validateConfig(this.profileId)
+    if (!validation.valid) {
+      const error = validation.errors.join('; ')
+      this.log(`[GUI] Reload skipped: ${error}`)
+      return { success: false, error }
+    }
+
+    const config = this.configManager.writeFrpcConfig(this.profileId, this.adminServer, this.configFormat, this.heldTunnels().map(t => t.id))
+
+    // frpc expands the secret templates from its own environment, which only a restart can change
+    const secretsChanged = Object.entries(config.env).some(([name, value]) => this.secretEnv[name] !== value)
+    if (secretsChanged) {
+      this.log('[GUI] Secrets changed, restarting frpc instead of reloading')
+      const started = await this.restart()
+      return started ? { success: true } : { success: false, error: this.lastError || 'Restart failed' }
+    }
+
+    try {
+      await this.admin.reload()
+      this.log('[GUI] Reloaded tunnels')
+      this.pollProxyStatuses()
+      return { success: true }
+    } catch (error) {
+      const message = (error as Error).message
+      this.log(`[ERR] Reload failed: ${message}`)
+      return { success: false, error: message }
+    }
+  }
+
   async restart(): Promise<boolean> {
     await this.stop()
     return this.start()
@@ -239,39 +682,209 @@ export class FrpcManager extends EventEmitter {
   getStatus(): FrpcStatus {
     return {
       running: this.process !== null,
-      lastError: this.lastError
+      lastError: this.lastError,
+      proxies: this.proxyStatuses,
+      configIssues: this.configIssues,
+      reconnect: this.reconnectState,
+      diagnosis: this.diagnosis,
+      localServices: this.localServices
     }
   }
 
+  private setConfigIssues(issues: ConfigIssue[]) {
+    if (issues.length === 0 && this.configIssues.length === 0) return
+    this.configIssues = issues
+    this.emit('configIssues', issues)
+  }
+
   isRunning(): boolean {
     return this.process !== null
   }
 
-  // Test connection to FRP server
-  async testConnection(host: string, port: number, timeout: number = 5000): Promise<{ success: boolean; error?: string }> {
+  // Test connection to FRP server, through the outbound proxy if one is set. When frpc
+  // would use TLS the probe also completes the handshake, so certificate and SNI
+  // problems show up before starting
+  async testConnection(host: string, port: number, transport?: ServerTransport, timeout: number = 5000): Promise<ConnectionTestResult> {
+    const protocol = transport?.protocol || 'tcp'
+    if (protocol === 'kcp' || protocol === 'quic') {
+      return { success: false, error: `${protocol.toUpperCase()} runs over UDP and cannot be probed. Start FRP and check the logs instead` }
+    }
+
+    // wss is a standard TLS connection; frp's own TLS over tcp starts with a custom first byte
+    const tlsSettings = transport?.tls
+    const useTLS = protocol === 'wss' || (protocol === 'tcp' && tlsSettings?.enable === true)
+
+    let options: tls.ConnectionOptions | null = null
+    if (useTLS && tlsSettings) {
+      try {
+        options = {
+          servername: tlsSettings.serverName || (net.isIP(host) ? undefined : host),
+          // frpc only verifies the server certificate when a trusted CA is configured
+          rejectUnauthorized: !!tlsSettings.trustedCaFile,
+          ca: tlsSettings.trustedCaFile ? readFileSync(tlsSettings.trustedCaFile) : undefined,
+          cert: tlsSettings.certFile ? readFileSync(tlsSettings.certFile) : undefined,
+          key: tlsSettings.keyFile ? readFileSync(tlsSettings.keyFile) : undefined
+        }
+      } catch (error) {
+        return { success: false, error: `Cannot read TLS file: ${(error as Error).message}` }
+      }
+    }
+
+    const proxy = transport?.proxy
+    let socket: net.Socket
+    try {
+      socket = await openConnection(host, port, proxy, timeout)
+    } catch (error) {
+      return { success: false, error: (error as Error).message }
+    }
+
+    const via = proxy ? ` via ${proxy.type} proxy ${proxy.host}:${proxy.port}` : ''
+    if (!options) {
+      socket.destroy()
+      return { success: true, detail: via ? `Connected${via}` : undefined }
+    }
+
+    const customFirstByte = protocol === 'tcp'
+      && !(tlsSettings?.disableCustomTLSFirstByte ?? await this.customTLSFirstByteDisabledByDefault())
+    return this.probeTLS(socket, options, customFirstByte, timeout, via)
+  }
+
+  // What the frpc that would run does when the setting is left unset
+  private async customTLSFirstByteDisabledByDefault(): Promise<boolean> {
+    const binary = findFrpcBinary(this.configManager.getFrpcPath())
+    return customTLSFirstByteDisabledFor(binary ? await detectFrpcVersion(binary.path) : null)
+  }
+
+  private probeTLS(
+    socket: net.Socket,
+    options: tls.ConnectionOptions,
+    customFirstByte: boolean,
+    timeout: number,
+    via: string
+  ): Promise<ConnectionTestResult> {
     return new Promise((resolve) => {
-      const socket = new net.Socket()
+      const finish = (result: ConnectionTestResult) => {
+        clearTimeout(timer)
+        tlsSocket.destroy()
+        socket.destroy()
+        resolve(result)
+      }
 
       const timer = setTimeout(() => {
-        socket.destroy()
-        resolve({ success: false, error: 'Connection timeout' })
+        finish({ success: false, error: 'TLS handshake timeout' })
       }, timeout)
 
-      socket.connect(port, host, () => {
-        clearTimeout(timer)
-        socket.destroy()
-        resolve({ success: true })
+      // frps tells TLS and plain connections apart by this byte
+      if (customFirstByte) {
+        socket.write(Buffer.from([0x17]))
+      }
+
+      const tlsSocket = tls.connect({ ...options, socket }, () => {
+        const verified = tlsSocket.authorized ? 'certificate verified' : 'certificate not verified'
+        finish({ success: true, detail: `${tlsSocket.getProtocol()} handshake OK${via}, ${verified}` })
       })
 
-      socket.on('error', (err) => {
-        clearTimeout(timer)
-        socket.destroy()
-        resolve({ success: false, error: err.message })
+      tlsSocket.on('error', (err) => {
+        finish({ success: false, error: `TLS handshake failed: ${err.message}` })
       })
     })
   }
 
-  setAutoReconnect(enabled: boolean) {
-    this.autoReconnect = enabled
+  // End-to-end check of a started TCP tunnel: connect to serverAddr:remotePort and expect the
+  // running local service's banner back. A local service that is down fails the check.
+  // On failure, `stage` says whether frps, the remote port or the local side is to blame
+  async checkReachability(tunnelId: string, timeout: number = 5000): Promise<ReachabilityResult> {
+    const tunnel = this.configManager.getTunnels(this.profileId).find(t => t.id === tunnelId)
+    if (!tunnel) {
+      return { success: false, error: 'Tunnel not found' }
+    }
+    if (tunnel.type !== 'tcp') {
+      return { success: false, error: 'Only TCP tunnels can be checked end to end' }
+    }
+    if (!this.process) {
+      return { success: false, error: 'FRP client is not running' }
+    }
+    const proxy = this.proxyStatuses.find(p => p.name === tunnel.name)
+    if (proxy?.state !== 'running') {
+      return proxy?.error
+        ? { success: false, stage: 'server', error: `frps did not start the tunnel: ${proxy.error}` }
+        : { success: false, error: 'frpc has not started this tunnel yet' }
+    }
+    if (this.checkingTunnels.has(tunnelId)) {
+      return { success: false, error: 'A check of this tunnel is already running' }
+    }
+
+    this.checkingTunnels.add(tunnelId)
+    try {
+      return await this.runReachabilityCheck(tunnel, timeout)
+    } finally {
+      this.checkingTunnels.delete(tunnelId)
+    }
+  }
+
+  private async runReachabilityCheck(tunnel: Tunnel, timeout: number): Promise<ReachabilityResult> {
+    const server = this.configManager.getServer(this.profileId)
+    const remoteAddr = `${server.serverAddr}:${tunnel.remotePort}`
+    const endpoint = localEndpoint(tunnel)
+
+    // What the remote end should answer with; null when the local side sends nothing first
+    let expected: Buffer | null = null
+    if (endpoint) {
+      try {
+        const reply = await readReply(await connectLocalService(endpoint, timeout), 1500)
+        expected = reply.data
+      } catch (error) {
+        return { success: false, stage: 'local', error: `The local service at ${describeEndpoint(endpoint)} is down: ${(error as Error).message}` }
+      }
+    }
+
+    let reply
+    try {
+      const socket = await openConnection(server.serverAddr, tunnel.remotePort, server.transport.proxy, timeout)
+      reply = await readReply(socket, expected ? timeout : 2000)
+    } catch (error) {
+      const serverCheck = await this.testConnection(server.serverAddr, server.serverPort, server.transport, timeout)
+      if (!serverCheck.success) {
+        return { success: false, stage: 'server', error: `frps at ${server.serverAddr}:${server.serverPort} is unreachable: ${serverCheck.error}` }
+      }
+      return {
+        success: false,
+        stage: 'remote',
+        error: `${remoteAddr} is unreachable (${(error as Error).message}) although frps is. A firewall on the server may block port ${tunnel.remotePort}`
+      }
+    }
+
+    if (reply.closed) {
+      return {
+        success: false,
+        stage: 'local',
+        error: `frps accepted the connection on ${remoteAddr}, but frpc could not reach ${endpoint ? describeEndpoint(endpoint) : `its ${tunnel.plugin?.type} plugin`}`
+      }
+    }
+    if (!expected) {
+      return {
+        success: true,
+        detail: `Connected through ${remoteAddr}. The local side sends nothing first, so only the open connection could be checked`
+      }
+    }
+    if (!reply.data) {
+      return { success: false, stage: 'local', error: `No reply came back through ${remoteAddr} within ${timeout / 1000}s` }
+    }
+    if (!sameBanner(reply.data, expected)) {
+      return {
+        success: false,
+        stage: 'remote',
+        error: `${remoteAddr} answered "${describeBanner(reply.data)}" instead of "${describeBanner(expected)}". serverAddr may point at another machine than frps`
+      }
+    }
+    return { success: true, detail: `Round trip confirmed, ${remoteAddr} answers with the local service's greeting` }
+  }
+
+  // Applies from the next disconnect; a countdown already running keeps its delay
+  setReconnectPolicy(policy: ReconnectPolicy) {
+    this.reconnectPolicy = policy
+    if (!policy.enabled) {
+      this.cancelReconnect()
+    }
   }
 }
@@ -0,0 +1,145 @@
+import { EventEmitter } from 'events'
+import { ConfigManager, ReconnectPolicy, ServerTransport } from './config-manager'
+import { ConnectionTestResult, FrpcManager, FrpcStatus, ReconnectState } from './frpc-manager'
+import { ProxyStatus } from './frpc-admin'
+import { LogLine } from './frpc-log'
+import { ConfigIssue } from './frpc-verify'
+import { FailureDiagnosis } from './frpc-diagnosis'
+import { LocalServiceState } from './local-service'
+import { ReachabilityResult } from './reachability'
+import { FrpcLock, findOrphanedFrpc, killOrphanedFrpc } from './frpc-lock'
+
+export interface FrpcAggregateStatus {
+  running: number
+  total: number
+}
+
+// Runs one frpc instance per server profile. Instance events are re-emitted
+// with the profile id as the first argument so listeners can tell them apart
+export class FrpcSupervisor extends EventEmitter {
+  private configManager: ConfigManager
+  private instances: Map<string, FrpcManager> = new Map()
+
+  constructor(configManager: ConfigManager) {
+    super()
+    this.configManager = configManager
+  }
+
+  private getInstance(id: string): FrpcManager {
+    let instance = this.instances.get(id)
+    if (!instance) {
+      instance = new FrpcManager(this.configManager, id)
+      instance.on('log', (log: LogLine) => this.emit('log', id, log))
+      instance.on('status', (status: string) => this.emit('status', id, status))
+      instance.on('error', (error: string) => this.emit('error', id, error))
+      instance.on('proxies', (proxies: ProxyStatus[]) => this.emit('proxies', id, proxies))
+      instance.on('configIssues', (issues: ConfigIssue[]) => this.emit('configIssues', id, issues))
+      instance.on('reconnect', (state: ReconnectState | null) => this.emit('reconnect', id, state))
+      instance.on('localServices', (states: Record<string, LocalServiceState>) => this.emit('localServices', id, states))
+      instance.on('reachability', (tunnelId: string, result: ReachabilityResult) => this.emit('reachability', id, tunnelId, result))
+      instance.on('diagnosis', (diagnosis: FailureDiagnosis | null) => this.emit('diagnosis', id, diagnosis))
+      this.instances.set(id, instance)
+    }
+    return instance
+  }
+
+  async start(id: string): Promise<boolean> {
+    return this.getInstance(id).start()
+  }
+
+  async stop(id: string): Promise<boolean> {
+    const instance = this.instances.get(id)
+    return instance ? instance.stop() : true
+  }
+
+  async restart(id: string): Promise<boolean> {
+    return this.getInstance(id).restart()
+  }
+
+  async reload(id: string): Promise<{ success: boolean; error?: string }> {
+    const instance = this.instances.get(id)
+    return instance ? instance.reload() : { success: false, error: 'FRP client is not running' }
+  }
+
+  async retryNow(id: string): Promise<boolean> {
+    const instance = this.instances.get(id)
+    return instance ? instance.retryNow() : false
+  }
+
+  async checkReachability(id: string, tunnelId: string): Promise<ReachabilityResult> {
+    const instance = this.instances.get(id)
+    return instance ? instance.checkReachability(tunnelId) : { success: false, error: 'FRP client is not running' }
+  }
+
+  async stopAll(): Promise<void> {
+    await Promise.all([...this.instances.values()].map(instance => instance.stop()))
+  }
+
+  // Stop and forget the instance of a profile that is being deleted
+  async remove(id: string): Promise<void> {
+    const instance = this.instances.get(id)
+    if (!instance) return
+
+    await instance.stop()
+    instance.removeAllListeners()
+    this.instances.delete(id)
+  }
+
+  // frpc processes a previous run of the app left running, by profile id
+  async findOrphans(): Promise<Map<string, FrpcLock>> {
+    const orphans = new Map<string, FrpcLock>()
+    for (const profile of this.configManager.getProfiles()) {
+      const lock = await findOrphanedFrpc(this.configManager.getFrpcLockPath(profile.id))
+      if (lock) {
+        orphans.set(profile.id, lock)
+      }
+    }
+    return orphans
+  }
+
+  adopt(id: string, lock: FrpcLock): boolean {
+    return this.getInstance(id).adopt(lock)
+  }
+
+  async killOrphan(id: string, lock: FrpcLock): Promise<boolean> {
+    return killOrphanedFrpc(lock, this.configManager.getFrpcLockPath(id))
+  }
+
+  getStatus(id: string): FrpcStatus {
+    return this.instances.get(id)?.getStatus() ?? {
+      running: false, lastError: null, proxies: [], configIssues: [], reconnect: null, diagnosis: null, localServices: {}
+    }
+  }
+
+  getStatuses(): Record<string, FrpcStatus> {
+    const statuses: Record<string, FrpcStatus> = {}
+    for (const profile of this.configManager.getProfiles()) {
+      statuses[profile.id] = this.getStatus(profile.id)
+    }
+    return statuses
+  }
+
+  getAggregateStatus(): FrpcAggregateStatus {
+    const profiles = this.configManager.getProfiles()
+    return {
+      running: profiles.filter(p => this.isRunning(p.id)).length,
+      total: profiles.length
+    }
+  }
+
+  isRunning(id: string): boolean {
+    return this.instances.get(id)?.isRunning() ?? false
+  }
+
+  // The probe does not depend on instance state, any profile's manager can run it
+  async testConnection(host: string, port: number, transport?: ServerTransport): Promise<ConnectionTestResult> {
+    return this.getInstance(this.configManager.getActiveProfileId()).testConnection(host, port, transport)
+  }
+
+  // New instances read the policy from the config manager
+  setReconnectPolicy(policy: ReconnectPolicy) {
+    for (const instance of this.instances.values()) {
+      instance.setReconnectPolicy(policy)
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import { execFile } from 'child_process'
+
+// A problem `frpc verify` found, tied to a tunnel or visitor and config key where it could tell
+export interface ConfigIssue {
+  message: string
+  tunnel?: string
+  field?: string
+}
+
+export interface VerifyResult {
+  valid: boolean
+  issues: ConfigIssue[]
+  warnings: string[]
+}
+
+// Config keys worth pointing at, longest first so remotePort wins over a shorter match.
+// INI spells them in snake_case, which is matched too
+const FIELDS = [
+  'proxyProtocolVersion', 'hostHeaderRewrite', 'bandwidthLimit', 'customDomains', 'loadBalancer',
+  'healthCheck', 'httpPassword', 'allowUsers', 'remotePort', 'serverName', 'fallbackTo', 'secretKey',
+  'localPort', 'locations', 'subdomain', 'bindAddr', 'bindPort', 'httpUser', 'localIP', 'plugin'
+]
+
+function findField(message: string): string | undefined {
+  const normalized = message.toLowerCase().replace(/_/g, '')
+  return FIELDS.find(field => normalized.includes(field.toLowerCase()))
+}
+
+function findTunnel(message: string, names: string[]): string | undefined {
+  return names.find(name =>
+    message.includes(`[${name}]`)
+    || message.includes(`"${name}"`)
+    || message.includes(`proxy ${name}`)
+    || message.includes(`visitor ${name}`))
+}
+
+// Entries are named by `name = "..."` in TOML and by section headers in INI.
+// TOML table headers like [auth] or [proxies.plugin] don't start an entry
+function entryName(line: string, ini: boolean): string | undefined {
+  const match = ini ? line.match(/^\[([^[\].]+)\]$/) : line.match(/^name = "(.*)"$/)
+  return match && match[1] !== 'common' ? match[1] : undefined
+}
+
+// Name of the [[proxies]]/[[visitors]] entry (or INI section) that a config line belongs to
+function entryAtLine(content: string, lineNumber: number, ini: boolean): string | undefined {
+  let current: string | undefined
+  for (const line of content.split('\n').slice(0, lineNumber)) {
+    if (line === '[[proxies]]' || line === '[[visitors]]' || line === '[common]') {
+      current = undefined
+      continue
+    }
+    current = entryName(line, ini) ?? current
+  }
+  return current
+}
+
+// Tunnel and visitor names in a generated TOML or INI config
+function entryNames(content: string, ini: boolean): string[] {
+  return content.split('\n').flatMap(line => {
+    const name = entryName(line, ini)
+    return name ? [name] : []
+  })
+}
+
+function parseVerifyOutput(output: string, content: string, ini: boolean): ConfigIssue[] {
+  const names = entryNames(content, ini)
+  return output
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('WARNING'))
+    .map(message => {
+      const lineNumber = message.match(/line (\d+)/)
+      return {
+        message,
+        tunnel: findTunnel(message, names) ?? (lineNumber ? entryAtLine(content, parseInt(lineNumber[1]), ini) : undefined),
+        field: findField(message)
+      }
+    })
+}
+
+// Runs `frpc verify -c` on a written config. `content` is what was written, for mapping issues back to entries,
+// and `env` the variables its templates reference
+export function verifyFrpcConfig(frpcPath: string, configPath: string, content: string, env: Record<string, string>): Promise<VerifyResult> {
+  return new Promise((resolve, reject) => {
+    execFile(frpcPath, ['verify', '-c', configPath], { timeout: 10000, env: { ...process.env, ...env } }, (error, stdout, stderr) => {
+      const output = `${stdout}\n${stderr}`
+      const warnings = output.split('\n').filter(line => line.startsWith('WARNING')).map(line => line.trim())
+
+      if (!error) {
+        resolve({ valid: true, issues: [], warnings })
+      } else if (typeof error.code === 'number') {
+        // frpc ran and rejected the config
+        resolve({ valid: false, issues: parseVerifyOutput(output, content, configPath.endsWith('.ini')), warnings })
+      } else {
+        reject(error)
+      }
+    })
+  })
+}
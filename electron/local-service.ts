@@ -0,0 +1,69 @@
+import * as net from 'net'
+import { Tunnel } from './config-manager'
+import { openConnection } from './proxy-connect'
+
+// 'waiting' is a down service whose tunnel is held back until it comes up
+export type LocalServiceState = 'up' | 'down' | 'waiting'
+
+export type LocalEndpoint = { host: string; port: number } | { path: string }
+
+// Where a tunnel's local service listens, or null when there is nothing to probe:
+// UDP services don't answer connects, and most plugins serve from inside frpc
+export function localEndpoint(tunnel: Tunnel): LocalEndpoint | null {
+  const plugin = tunnel.plugin
+  if (!plugin) {
+    return tunnel.type === 'udp' || tunnel.type === 'sudp' ? null : { host: tunnel.localIP, port: tunnel.localPort }
+  }
+
+  switch (plugin.type) {
+    case 'unix_domain_socket':
+      return { path: plugin.unixPath }
+    case 'https2http':
+    case 'https2https': {
+      const match = plugin.localAddr.match(/^(.*):(\d+)$/)
+      return match ? { host: match[1] || '127.0.0.1', port: parseInt(match[2]) } : null
+    }
+    default:
+      return null
+  }
+}
+
+export function describeEndpoint(endpoint: LocalEndpoint): string {
+  return 'path' in endpoint ? endpoint.path : `${endpoint.host}:${endpoint.port}`
+}
+
+// Connect to the local service directly, the way frpc does for each visitor
+export function connectLocalService(endpoint: LocalEndpoint, timeout: number = 2000): Promise<net.Socket> {
+  if (!('path' in endpoint)) {
+    return openConnection(endpoint.host, endpoint.port, undefined, timeout)
+  }
+
+  return new Promise((resolve, reject) => {
+    const socket = net.connect({ path: endpoint.path })
+    const timer = setTimeout(() => {
+      socket.destroy()
+      reject(new Error('Connection timeout'))
+    }, timeout)
+    socket.once('connect', () => {
+      clearTimeout(timer)
+      socket.removeAllListeners('error')
+      resolve(socket)
+    })
+    socket.once('error', (error) => {
+      clearTimeout(timer)
+      socket.destroy()
+      reject(error)
+    })
+  })
+}
+
+// Up when something accepts a connection, like testConnection does for the server
+export function probeLocalService(endpoint: LocalEndpoint, timeout: number = 2000): Promise<boolean> {
+  return connectLocalService(endpoint, timeout).then(
+    (socket) => {
+      socket.destroy()
+      return true
+    },
+    () => false
+  )
+}
@@ -1,14 +1,25 @@
 import { app, BrowserWindow, ipcMain, Tray, Menu, nativeImage, dialog, shell } from 'electron'
 import { join, dirname } from 'path'
 import { writeFileSync, readFileSync, existsSync } from 'fs'
-import { FrpcManager } from './frpc-manager'
-import { ConfigManager } from './config-manager'
+import { FrpcSupervisor } from './frpc-supervisor'
+import { ReconnectState } from './frpc-manager'
+import { FailureDiagnosis } from './frpc-diagnosis'
+import { LocalServiceState } from './local-service'
+import { ReachabilityResult } from './reachability'
+import { ProxyStatus } from './frpc-admin'
+import { LogLine } from './frpc-log'
+import { ConfigIssue } from './frpc-verify'
+import { FrpcConfigImport, parseFrpcConfig } from './frpc-import'
+import { ConfigFormat, findFrpcBinary, getFrpcBinaryInfo, installFrpcArchive } from './frpc-binary'
+import { AppConfig, ConfigManager, ReconnectPolicy, ServerTransport, validateReconnectPolicy } from './config-manager'
 
 let mainWindow: BrowserWindow | null = null
-let frpcManager: FrpcManager | null = null
+let frpcSupervisor: FrpcSupervisor | null = null
 let configManager: ConfigManager | null = null
 let tray: Tray | null = null
 let isQuitting: boolean = false
+// Starts wait for this, so a new frpc never races the prompt about one left running
+let orphansHandled: Promise<void> = Promise.resolve()
 
 // Determine if we're in development or production
 const isDev = process.env.VITE_DEV_SERVER_URL !== undefined
@@ -113,13 +124,15 @@ function createAppMenu() {
       submenu: [
         {
           label: 'About Simply FRP GUI',
-          click: () => {
+          click: async () => {
             const version = app.getVersion()
+            const frpc = await getFrpcBinaryInfo(configManager?.getFrpcPath())
+            const frpcVersion = frpc?.version ? `frpc ${frpc.version}` : 'frpc version unknown'
             dialog.showMessageBox(mainWindow!, {
               type: 'info',
               title: 'About Simply FRP GUI',
               message: 'Simply FRP GUI',
-              detail: `Version ${version}\n\nA lightweight desktop client for managing FRP (Fast Reverse Proxy) tunnels. Easily configure and control secure tunnels to expose local services.\n\nBuilt with Electron + React\n\nAuthor: Ryon Whyte\nLicense: MIT`
+              detail: `Version ${version}\n${frpcVersion}\n\nA lightweight desktop client for managing FRP (Fast Reverse Proxy) tunnels. Easily configure and control secure tunnels to expose local services.\n\nBuilt with Electron + React\n\nAuthor: Ryon Whyte\nLicense: MIT`
             })
           }
         },
@@ -189,10 +202,22 @@ function createTray() {
   })
 }
 
+// Show another server profile in the window. Every profile has its own frpc
+// instance, so switching leaves running instances alone
+function switchProfile(id: string) {
+  if (!configManager || configManager.getActiveProfileId() === id) return
+
+  configManager.setActiveProfile(id)
+  mainWindow?.webContents.send('config:reload')
+  updateTrayMenu()
+}
+
 function updateTrayMenu() {
   if (!tray) return
 
-  const isRunning = frpcManager?.getStatus().running ?? false
+  const profiles = configManager?.getProfiles() ?? []
+  const activeProfileId = configManager?.getActiveProfileId()
+  const aggregate = frpcSupervisor?.getAggregateStatus() ?? { running: 0, total: profiles.length }
 
   const contextMenu = Menu.buildFromTemplate([
     {
@@ -201,27 +226,51 @@ function updateTrayMenu() {
     },
     { type: 'separator' },
     {
-      label: isRunning ? 'Stop FRP' : 'Start FRP',
-      click: () => {
-        if (isRunning) {
-          frpcManager?.stop()
-        } else {
-          frpcManager?.start()
+      label: 'Server Profile',
+      submenu: profiles.map(profile => ({
+        label: profile.name,
+        type: 'radio' as const,
+        checked: profile.id === activeProfileId,
+        click: () => switchProfile(profile.id)
+      }))
+    },
+    { type: 'separator' },
+    // One checkbox per server, checked while its frpc instance is running
+    ...profiles.map(profile => {
+      const isRunning = frpcSupervisor?.isRunning(profile.id) ?? false
+      return {
+        label: profile.name,
+        type: 'checkbox' as const,
+        checked: isRunning,
+        click: () => {
+          if (isRunning) {
+            frpcSupervisor?.stop(profile.id)
+          } else {
+            orphansHandled.then(() => frpcSupervisor?.start(profile.id))
+          }
         }
       }
+    }),
+    {
+      label: 'Stop All',
+      enabled: aggregate.running > 0,
+      click: () => frpcSupervisor?.stopAll()
     },
     { type: 'separator' },
     {
       label: 'Quit',
-      click: () => {
-        frpcManager?.stop()
-        app.quit()
-      }
+      click: () => app.quit()
     }
   ])
 
   tray.setContextMenu(contextMenu)
-  tray.setToolTip(isRunning ? 'Simply FRP GUI - Running' : 'Simply FRP GUI - Stopped')
+  if (aggregate.running === 0) {
+    tray.setToolTip('Simply FRP GUI - Stopped')
+  } else if (aggregate.total > 1) {
+    tray.setToolTip(`Simply FRP GUI - Running (${aggregate.running}/${aggregate.total} servers)`)
+  } else {
+    tray.setToolTip('Simply FRP GUI - Running')
+  }
 }
 
 function createWindow() {
@@ -240,7 +289,7 @@ function createWindow() {
 
   // Initialize managers
   configManager = new ConfigManager()
-  frpcManager = new FrpcManager(configManager)
+  frpcSupervisor = new FrpcSupervisor(configManager)
 
   // Load the app
   if (isDev) {
@@ -262,18 +311,42 @@ function createWindow() {
   createAppMenu()
   createTray()
 
-  // Forward frpc logs to renderer
-  frpcManager.on('log', (log: string) => {
-    mainWindow?.webContents.send('frpc:log', log)
+  // Forward frpc logs to renderer, tagged with the instance (profile) id
+  frpcSupervisor.on('log', (instanceId: string, log: LogLine) => {
+    mainWindow?.webContents.send('frpc:log', instanceId, log)
   })
 
-  frpcManager.on('status', (status: string) => {
-    mainWindow?.webContents.send('frpc:status', status)
+  frpcSupervisor.on('status', (instanceId: string, status: string) => {
+    mainWindow?.webContents.send('frpc:status', instanceId, status)
     updateTrayMenu()
   })
 
-  frpcManager.on('error', (error: string) => {
-    mainWindow?.webContents.send('frpc:error', error)
+  frpcSupervisor.on('error', (instanceId: string, error: string) => {
+    mainWindow?.webContents.send('frpc:error', instanceId, error)
+  })
+
+  frpcSupervisor.on('proxies', (instanceId: string, proxies: ProxyStatus[]) => {
+    mainWindow?.webContents.send('frpc:proxies', instanceId, proxies)
+  })
+
+  frpcSupervisor.on('configIssues', (instanceId: string, issues: ConfigIssue[]) => {
+    mainWindow?.webContents.send('frpc:configIssues', instanceId, issues)
+  })
+
+  frpcSupervisor.on('reconnect', (instanceId: string, state: ReconnectState | null) => {
+    mainWindow?.webContents.send('frpc:reconnect', instanceId, state)
+  })
+
+  frpcSupervisor.on('localServices', (instanceId: string, states: Record<string, LocalServiceState>) => {
+    mainWindow?.webContents.send('frpc:localServices', instanceId, states)
+  })
+
+  frpcSupervisor.on('reachability', (instanceId: string, tunnelId: string, result: ReachabilityResult) => {
+    mainWindow?.webContents.send('frpc:reachability', instanceId, tunnelId, result)
+  })
+
+  frpcSupervisor.on('diagnosis', (instanceId: string, diagnosis: FailureDiagnosis | null) => {
+    mainWindow?.webContents.send('frpc:diagnosis', instanceId, diagnosis)
   })
 
   // Minimize to tray instead of closing
@@ -287,6 +360,39 @@ function createWindow() {
   mainWindow.on('closed', () => {
     mainWindow = null
   })
+
+  orphansHandled = handleOrphanedFrpc().catch((error) => {
+    console.error('Failed to check for a running frpc:', error)
+  })
+}
+
+// A crashed or killed app leaves frpc running with the same proxies, and starting
+// another one would fail with "proxy already exists". Let the user take it over or stop it
+async function handleOrphanedFrpc() {
+  if (!frpcSupervisor || !configManager) return
+
+  const orphans = await frpcSupervisor.findOrphans()
+  for (const [profileId, lock] of orphans) {
+    const profile = configManager.getProfiles().find(p => p.id === profileId)
+    const { response } = await dialog.showMessageBox(mainWindow!, {
+      type: 'question',
+      title: 'frpc Still Running',
+      message: `frpc is still running for ${profile?.name || 'a server profile'}`,
+      detail: `A previous session of the app left frpc (PID ${lock.pid}) running. Adopt it to manage it from here, or stop it so its tunnels can be started again. If you decide later, you will be asked again on the next launch.`,
+      buttons: ['Adopt', 'Stop It', 'Decide Later'],
+      defaultId: 0,
+      cancelId: 2
+    })
+
+    // Dismissing the dialog leaves frpc and its lock file alone
+    if (response === 2) continue
+
+    if (response === 0) {
+      frpcSupervisor.adopt(profileId, lock)
+    } else if (!await frpcSupervisor.killOrphan(profileId, lock)) {
+      dialog.showErrorBox('Stop Failed', `Could not stop frpc (PID ${lock.pid}). Stop it manually before starting this profile.`)
+    }
+  }
 }
 
 // IPC Handlers
@@ -300,6 +406,10 @@ ipcMain.handle('config:save', async (_event, config) => {
   return configManager?.saveConfig(config)
 })
 
+ipcMain.handle('config:preview', async (_event, config: Partial<AppConfig>, format: ConfigFormat, revealSecrets: boolean) => {
+  return configManager?.previewFrpcConfig(config, format, revealSecrets)
+})
+
 // Tunnel handlers
 ipcMain.handle('tunnels:add', async (_event, tunnel) => {
   return configManager?.addTunnel(tunnel)
@@ -313,25 +423,125 @@ ipcMain.handle('tunnels:remove', async (_event, id) => {
   return configManager?.removeTunnel(id)
 })
 
-// FRP control handlers
-ipcMain.handle('frpc:start', async () => {
-  return frpcManager?.start()
+// Visitor handlers
+ipcMain.handle('visitors:add', async (_event, visitor) => {
+  return configManager?.addVisitor(visitor)
+})
+
+ipcMain.handle('visitors:update', async (_event, id, visitor) => {
+  return configManager?.updateVisitor(id, visitor)
 })
 
-ipcMain.handle('frpc:stop', async () => {
-  return frpcManager?.stop()
+ipcMain.handle('visitors:remove', async (_event, id) => {
+  return configManager?.removeVisitor(id)
 })
 
-ipcMain.handle('frpc:restart', async () => {
-  return frpcManager?.restart()
+// Server profile handlers
+ipcMain.handle('profiles:add', async (_event, name: string) => {
+  const profile = configManager?.addProfile(name)
+  updateTrayMenu()
+  return profile
 })
 
-ipcMain.handle('frpc:status', async () => {
-  return frpcManager?.getStatus()
+ipcMain.handle('profiles:rename', async (_event, id: string, name: string) => {
+  configManager?.renameProfile(id, name)
+  updateTrayMenu()
+})
+
+ipcMain.handle('profiles:remove', async (_event, id: string) => {
+  // Refuse before touching the instance so the last profile keeps running
+  if ((configManager?.getProfiles().length ?? 0) <= 1) {
+    throw new Error('Cannot remove the last profile')
+  }
+  await frpcSupervisor?.remove(id)
+  configManager?.removeProfile(id)
+  updateTrayMenu()
 })
 
-ipcMain.handle('frpc:testConnection', async (_event, host: string, port: number) => {
-  return frpcManager?.testConnection(host, port)
+ipcMain.handle('profiles:switch', async (_event, id: string) => {
+  switchProfile(id)
+})
+
+// FRP control handlers, one frpc instance per server profile
+ipcMain.handle('frpc:start', async (_event, instanceId: string) => {
+  await orphansHandled
+  return frpcSupervisor?.start(instanceId)
+})
+
+ipcMain.handle('frpc:stop', async (_event, instanceId: string) => {
+  return frpcSupervisor?.stop(instanceId)
+})
+
+ipcMain.handle('frpc:restart', async (_event, instanceId: string) => {
+  await orphansHandled
+  return frpcSupervisor?.restart(instanceId)
+})
+
+ipcMain.handle('frpc:reload', async (_event, instanceId: string) => {
+  return frpcSupervisor?.reload(instanceId)
+})
+
+ipcMain.handle('frpc:retryNow', async (_event, instanceId: string) => {
+  return frpcSupervisor?.retryNow(instanceId)
+})
+
+ipcMain.handle('frpc:setReconnectPolicy', async (_event, policy: ReconnectPolicy) => {
+  const errors = validateReconnectPolicy(policy)
+  if (errors.length > 0) {
+    return { success: false, error: errors.join('; ') }
+  }
+  configManager?.setReconnectPolicy(policy)
+  frpcSupervisor?.setReconnectPolicy(policy)
+  return { success: true }
+})
+
+ipcMain.handle('frpc:binaryInfo', async () => {
+  return getFrpcBinaryInfo(configManager?.getFrpcPath())
+})
+
+// An empty path goes back to searching the usual locations
+ipcMain.handle('frpc:setBinaryPath', async (_event, path: string) => {
+  if (path && !findFrpcBinary(path)) {
+    return { success: false, error: `${path} is not an executable file` }
+  }
+  configManager?.setFrpcPath(path)
+  return { success: true }
+})
+
+ipcMain.handle('frpc:installArchive', async () => {
+  const result = await dialog.showOpenDialog(mainWindow!, {
+    title: 'Install frpc from Release Archive',
+    filters: [{ name: 'frp release', extensions: ['tar.gz', 'zip'] }],
+    properties: ['openFile']
+  })
+
+  if (!result.canceled && result.filePaths.length > 0) {
+    try {
+      await installFrpcArchive(result.filePaths[0])
+      // The freshly installed binary should be the one that runs
+      configManager?.setFrpcPath('')
+      return { success: true }
+    } catch (error) {
+      return { success: false, error: (error as Error).message }
+    }
+  }
+  return { success: false, error: 'Cancelled' }
+})
+
+ipcMain.handle('frpc:status', async (_event, instanceId: string) => {
+  return frpcSupervisor?.getStatus(instanceId)
+})
+
+ipcMain.handle('frpc:statuses', async () => {
+  return frpcSupervisor?.getStatuses()
+})
+
+ipcMain.handle('frpc:testConnection', async (_event, host: string, port: number, transport?: ServerTransport) => {
+  return frpcSupervisor?.testConnection(host, port, transport)
+})
+
+ipcMain.handle('frpc:checkReachability', async (_event, instanceId: string, tunnelId: string) => {
+  return frpcSupervisor?.checkReachability(instanceId, tunnelId)
 })
 
 // Export/Import config
@@ -374,6 +584,31 @@ ipcMain.handle('config:import', async () => {
   return { success: false, error: 'Cancelled' }
 })
 
+// Hand-written frpc configs are parsed for a preview first; nothing is saved until applied
+ipcMain.handle('config:previewFrpcImport', async () => {
+  const result = await dialog.showOpenDialog(mainWindow!, {
+    title: 'Import frpc Config',
+    filters: [{ name: 'frpc config', extensions: ['toml', 'ini', 'yaml', 'yml', 'json'] }],
+    properties: ['openFile']
+  })
+
+  if (!result.canceled && result.filePaths.length > 0) {
+    try {
+      const content = readFileSync(result.filePaths[0], 'utf-8')
+      return { success: true, preview: parseFrpcConfig(result.filePaths[0], content) }
+    } catch (error) {
+      return { success: false, error: (error as Error).message }
+    }
+  }
+  return { success: false, error: 'Cancelled' }
+})
+
+ipcMain.handle('config:applyFrpcImport', async (_event, name: string, imported: FrpcConfigImport) => {
+  const profile = configManager?.addImportedProfile(name, imported)
+  updateTrayMenu()
+  return profile
+})
+
 // Auto-start on boot
 ipcMain.handle('app:setAutoStart', async (_event, enabled: boolean) => {
   app.setLoginItemSettings({
@@ -398,6 +633,18 @@ ipcMain.handle('app:openExternal', async (_event, url: string) => {
   }
 })
 
+// Pick a local file or directory (plugin paths, certificates)
+ipcMain.handle('dialog:selectPath', async (_event, options: { title?: string; directory?: boolean }) => {
+  const result = await dialog.showOpenDialog(mainWindow!, {
+    title: options?.title,
+    properties: [options?.directory ? 'openDirectory' : 'openFile']
+  })
+  if (result.canceled || result.filePaths.length === 0) {
+    return null
+  }
+  return result.filePaths[0]
+})
+
 // Single instance lock - prevent multiple instances
 const gotTheLock = app.requestSingleInstanceLock()
 
@@ -417,15 +664,24 @@ if (!gotTheLock) {
 // App lifecycle
 app.whenReady().then(createWindow)
 
+// Quitting waits for frpc to exit, otherwise it is left running without the app
+let frpcStopped = false
+
 app.on('window-all-closed', () => {
-  frpcManager?.stop()
   if (tray) {
     tray.destroy()
     tray = null
   }
-  if (process.platform !== 'darwin') {
-    app.quit()
+  if (!frpcSupervisor) {
+    if (process.platform !== 'darwin') app.quit()
+    return
   }
+  frpcSupervisor.stopAll().finally(() => {
+    if (process.platform !== 'darwin') {
+      frpcStopped = true
+      app.quit()
+    }
+  })
 })
 
 app.on('activate', () => {
@@ -434,11 +690,17 @@ app.on('activate', () => {
   }
 })
 
-app.on('before-quit', () => {
+app.on('before-quit', (event) => {
   isQuitting = true
-  frpcManager?.stop()
   if (tray) {
     tray.destroy()
     tray = null
   }
+  if (frpcStopped || !frpcSupervisor) return
+
+  event.preventDefault()
+  frpcSupervisor.stopAll().finally(() => {
+    frpcStopped = true
+    app.quit()
+  })
 })
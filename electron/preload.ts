@@ -1,29 +1,14 @@
 import { contextBridge, ipcRenderer } from 'electron'
-
-export interface Tunnel {
-  id: string
-  name: string
-  type: 'tcp'
-  localIP: string
-  localPort: number
-  remotePort: number
-  enabled: boolean
-}
-
-export interface AppConfig {
-  serverAddr: string
-  serverPort: number
-  authToken: string
-  remotePortMin: number
-  remotePortMax: number
-  autoStart: boolean
-  tunnels: Tunnel[]
-}
-
-export interface FrpcStatus {
-  running: boolean
-  lastError: string | null
-}
+import type { AppConfig, ProfileSummary, ReconnectPolicy, ServerTransport, Tunnel, Visitor } from './config-manager'
+import type { ConnectionTestResult, FrpcStatus, ReconnectState } from './frpc-manager'
+import type { ProxyStatus } from './frpc-admin'
+import type { LogLine } from './frpc-log'
+import type { ConfigIssue } from './frpc-verify'
+import type { FailureDiagnosis } from './frpc-diagnosis'
+import type { LocalServiceState } from './local-service'
+import type { ReachabilityResult } from './reachability'
+import type { FrpcConfigImport } from './frpc-import'
+import type { ConfigFormat, FrpcBinaryInfo } from './frpc-binary'
 
 // Expose protected methods to renderer
 contextBridge.exposeInMainWorld('electronAPI', {
@@ -31,6 +16,18 @@ contextBridge.exposeInMainWorld('electronAPI', {
   getConfig: (): Promise<AppConfig> => ipcRenderer.invoke('config:get'),
   saveConfig: (config: Partial<AppConfig>): Promise<void> =>
     ipcRenderer.invoke('config:save', config),
+  previewFrpcConfig: (config: Partial<AppConfig>, format: ConfigFormat, revealSecrets: boolean): Promise<string> =>
+    ipcRenderer.invoke('config:preview', config, format, revealSecrets),
+
+  // Server profiles
+  addProfile: (name: string): Promise<ProfileSummary> =>
+    ipcRenderer.invoke('profiles:add', name),
+  renameProfile: (id: string, name: string): Promise<void> =>
+    ipcRenderer.invoke('profiles:rename', id, name),
+  removeProfile: (id: string): Promise<void> =>
+    ipcRenderer.invoke('profiles:remove', id),
+  switchProfile: (id: string): Promise<void> =>
+    ipcRenderer.invoke('profiles:switch', id),
 
   // Tunnels
   addTunnel: (tunnel: Omit<Tunnel, 'id'>): Promise<Tunnel> =>
@@ -40,19 +37,43 @@ contextBridge.exposeInMainWorld('electronAPI', {
   removeTunnel: (id: string): Promise<void> =>
     ipcRenderer.invoke('tunnels:remove', id),
 
-  // FRP control
-  startFrpc: (): Promise<boolean> => ipcRenderer.invoke('frpc:start'),
-  stopFrpc: (): Promise<boolean> => ipcRenderer.invoke('frpc:stop'),
-  restartFrpc: (): Promise<boolean> => ipcRenderer.invoke('frpc:restart'),
-  getFrpcStatus: (): Promise<FrpcStatus> => ipcRenderer.invoke('frpc:status'),
-  testConnection: (host: string, port: number): Promise<{ success: boolean; error?: string }> =>
-    ipcRenderer.invoke('frpc:testConnection', host, port),
+  // Visitors
+  addVisitor: (visitor: Omit<Visitor, 'id'>): Promise<Visitor> =>
+    ipcRenderer.invoke('visitors:add', visitor),
+  updateVisitor: (id: string, visitor: Partial<Visitor>): Promise<Visitor> =>
+    ipcRenderer.invoke('visitors:update', id, visitor),
+  removeVisitor: (id: string): Promise<void> =>
+    ipcRenderer.invoke('visitors:remove', id),
+
+  // FRP control, one instance per server profile (instanceId is the profile id)
+  startFrpc: (instanceId: string): Promise<boolean> => ipcRenderer.invoke('frpc:start', instanceId),
+  stopFrpc: (instanceId: string): Promise<boolean> => ipcRenderer.invoke('frpc:stop', instanceId),
+  restartFrpc: (instanceId: string): Promise<boolean> => ipcRenderer.invoke('frpc:restart', instanceId),
+  reloadFrpc: (instanceId: string): Promise<{ success: boolean; error?: string }> =>
+    ipcRenderer.invoke('frpc:reload', instanceId),
+  retryFrpc: (instanceId: string): Promise<boolean> => ipcRenderer.invoke('frpc:retryNow', instanceId),
+  setReconnectPolicy: (policy: ReconnectPolicy): Promise<{ success: boolean; error?: string }> =>
+    ipcRenderer.invoke('frpc:setReconnectPolicy', policy),
+  getFrpcStatus: (instanceId: string): Promise<FrpcStatus> => ipcRenderer.invoke('frpc:status', instanceId),
+  getFrpcStatuses: (): Promise<Record<string, FrpcStatus>> => ipcRenderer.invoke('frpc:statuses'),
+  getFrpcBinaryInfo: (): Promise<FrpcBinaryInfo | null> => ipcRenderer.invoke('frpc:binaryInfo'),
+  setFrpcBinaryPath: (path: string): Promise<{ success: boolean; error?: string }> =>
+    ipcRenderer.invoke('frpc:setBinaryPath', path),
+  installFrpcArchive: (): Promise<{ success: boolean; error?: string }> => ipcRenderer.invoke('frpc:installArchive'),
+  testConnection: (host: string, port: number, transport?: ServerTransport): Promise<ConnectionTestResult> =>
+    ipcRenderer.invoke('frpc:testConnection', host, port, transport),
+  checkTunnelReachability: (instanceId: string, tunnelId: string): Promise<ReachabilityResult> =>
+    ipcRenderer.invoke('frpc:checkReachability', instanceId, tunnelId),
 
   // Config import/export
   exportConfig: (): Promise<{ success: boolean; error?: string }> =>
     ipcRenderer.invoke('config:export'),
   importConfig: (): Promise<{ success: boolean; error?: string }> =>
     ipcRenderer.invoke('config:import'),
+  previewFrpcImport: (): Promise<{ success: boolean; error?: string; preview?: FrpcConfigImport }> =>
+    ipcRenderer.invoke('config:previewFrpcImport'),
+  applyFrpcImport: (name: string, imported: FrpcConfigImport): Promise<ProfileSummary> =>
+    ipcRenderer.invoke('config:applyFrpcImport', name, imported),
 
   // Auto-start
   setAutoStart: (enabled: boolean): Promise<boolean> =>
@@ -64,22 +85,57 @@ contextBridge.exposeInMainWorld('electronAPI', {
   openExternal: (url: string): Promise<{ success: boolean; error?: string }> =>
     ipcRenderer.invoke('app:openExternal', url),
 
+  // Native file/directory picker
+  selectPath: (options: { title?: string; directory?: boolean }): Promise<string | null> =>
+    ipcRenderer.invoke('dialog:selectPath', options),
+
   // Event listeners
-  onFrpcLog: (callback: (log: string) => void) => {
-    const handler = (_event: Electron.IpcRendererEvent, log: string) => callback(log)
+  onFrpcLog: (callback: (instanceId: string, log: LogLine) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, instanceId: string, log: LogLine) => callback(instanceId, log)
     ipcRenderer.on('frpc:log', handler)
     return () => ipcRenderer.removeListener('frpc:log', handler)
   },
-  onFrpcStatus: (callback: (status: string) => void) => {
-    const handler = (_event: Electron.IpcRendererEvent, status: string) => callback(status)
+  onFrpcStatus: (callback: (instanceId: string, status: string) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, instanceId: string, status: string) => callback(instanceId, status)
     ipcRenderer.on('frpc:status', handler)
     return () => ipcRenderer.removeListener('frpc:status', handler)
   },
-  onFrpcError: (callback: (error: string) => void) => {
-    const handler = (_event: Electron.IpcRendererEvent, error: string) => callback(error)
+  onFrpcError: (callback: (instanceId: string, error: string) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, instanceId: string, error: string) => callback(instanceId, error)
     ipcRenderer.on('frpc:error', handler)
     return () => ipcRenderer.removeListener('frpc:error', handler)
   },
+  onFrpcProxies: (callback: (instanceId: string, proxies: ProxyStatus[]) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, instanceId: string, proxies: ProxyStatus[]) => callback(instanceId, proxies)
+    ipcRenderer.on('frpc:proxies', handler)
+    return () => ipcRenderer.removeListener('frpc:proxies', handler)
+  },
+  onFrpcConfigIssues: (callback: (instanceId: string, issues: ConfigIssue[]) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, instanceId: string, issues: ConfigIssue[]) => callback(instanceId, issues)
+    ipcRenderer.on('frpc:configIssues', handler)
+    return () => ipcRenderer.removeListener('frpc:configIssues', handler)
+  },
+  onFrpcReconnect: (callback: (instanceId: string, state: ReconnectState | null) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, instanceId: string, state: ReconnectState | null) => callback(instanceId, state)
+    ipcRenderer.on('frpc:reconnect', handler)
+    return () => ipcRenderer.removeListener('frpc:reconnect', handler)
+  },
+  onFrpcLocalServices: (callback: (instanceId: string, states: Record<string, LocalServiceState>) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, instanceId: string, states: Record<string, LocalServiceState>) => callback(instanceId, states)
+    ipcRenderer.on('frpc:localServices', handler)
+    return () => ipcRenderer.removeListener('frpc:localServices', handler)
+  },
+  onTunnelReachability: (callback: (instanceId: string, tunnelId: string, result: ReachabilityResult) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, instanceId: string, tunnelId: string, result: ReachabilityResult) =>
+      callback(instanceId, tunnelId, result)
+    ipcRenderer.on('frpc:reachability', handler)
+    return () => ipcRenderer.removeListener('frpc:reachability', handler)
+  },
+  onFrpcDiagnosis: (callback: (instanceId: string, diagnosis: FailureDiagnosis | null) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, instanceId: string, diagnosis: FailureDiagnosis | null) => callback(instanceId, diagnosis)
+    ipcRenderer.on('frpc:diagnosis', handler)
+    return () => ipcRenderer.removeListener('frpc:diagnosis', handler)
+  },
   onConfigReload: (callback: () => void) => {
     const handler = () => callback()
     ipcRenderer.on('config:reload', handler)
@@ -93,22 +149,47 @@ declare global {
     electronAPI: {
       getConfig: () => Promise<AppConfig>
       saveConfig: (config: Partial<AppConfig>) => Promise<void>
+      previewFrpcConfig: (config: Partial<AppConfig>, format: ConfigFormat, revealSecrets: boolean) => Promise<string>
+      addProfile: (name: string) => Promise<ProfileSummary>
+      renameProfile: (id: string, name: string) => Promise<void>
+      removeProfile: (id: string) => Promise<void>
+      switchProfile: (id: string) => Promise<void>
       addTunnel: (tunnel: Omit<Tunnel, 'id'>) => Promise<Tunnel>
       updateTunnel: (id: string, tunnel: Partial<Tunnel>) => Promise<Tunnel>
       removeTunnel: (id: string) => Promise<void>
-      startFrpc: () => Promise<boolean>
-      stopFrpc: () => Promise<boolean>
-      restartFrpc: () => Promise<boolean>
-      getFrpcStatus: () => Promise<FrpcStatus>
-      testConnection: (host: string, port: number) => Promise<{ success: boolean; error?: string }>
+      addVisitor: (visitor: Omit<Visitor, 'id'>) => Promise<Visitor>
+      updateVisitor: (id: string, visitor: Partial<Visitor>) => Promise<Visitor>
+      removeVisitor: (id: string) => Promise<void>
+      startFrpc: (instanceId: string) => Promise<boolean>
+      stopFrpc: (instanceId: string) => Promise<boolean>
+      restartFrpc: (instanceId: string) => Promise<boolean>
+      reloadFrpc: (instanceId: string) => Promise<{ success: boolean; error?: string }>
+      retryFrpc: (instanceId: string) => Promise<boolean>
+      setReconnectPolicy: (policy: ReconnectPolicy) => Promise<{ success: boolean; error?: string }>
+      getFrpcStatus: (instanceId: string) => Promise<FrpcStatus>
+      getFrpcStatuses: () => Promise<Record<string, FrpcStatus>>
+      getFrpcBinaryInfo: () => Promise<FrpcBinaryInfo | null>
+      setFrpcBinaryPath: (path: string) => Promise<{ success: boolean; error?: string }>
+      installFrpcArchive: () => Promise<{ success: boolean; error?: string }>
+      testConnection: (host: string, port: number, transport?: ServerTransport) => Promise<ConnectionTestResult>
+      checkTunnelReachability: (instanceId: string, tunnelId: string) => Promise<ReachabilityResult>
       exportConfig: () => Promise<{ success: boolean; error?: string }>
       importConfig: () => Promise<{ success: boolean; error?: string }>
+      previewFrpcImport: () => Promise<{ success: boolean; error?: string; preview?: FrpcConfigImport }>
+      applyFrpcImport: (name: string, imported: FrpcConfigImport) => Promise<ProfileSummary>
       setAutoStart: (enabled: boolean) => Promise<boolean>
       getAutoStart: () => Promise<boolean>
       openExternal: (url: string) => Promise<{ success: boolean; error?: string }>
-      onFrpcLog: (callback: (log: string) => void) => () => void
-      onFrpcStatus: (callback: (status: string) => void) => () => void
-      onFrpcError: (callback: (error: string) => void) => () => void
+      selectPath: (options: { title?: string; directory?: boolean }) => Promise<string | null>
+      onFrpcLog: (callback: (instanceId: string, log: LogLine) => void) => () => void
+      onFrpcStatus: (callback: (instanceId: string, status: string) => void) => () => void
+      onFrpcError: (callback: (instanceId: string, error: string) => void) => () => void
+      onFrpcProxies: (callback: (instanceId: string, proxies: ProxyStatus[]) => void) => () => void
+      onFrpcConfigIssues: (callback: (instanceId: string, issues: ConfigIssue[]) => void) => () => void
+      onFrpcReconnect: (callback: (instanceId: string, state: ReconnectState | null) => void) => () => void
+      onFrpcLocalServices: (callback: (instanceId: string, states: Record<string, LocalServiceState>) => void) => () => void
+      onTunnelReachability: (callback: (instanceId: string, tunnelId: string, result: ReachabilityResult) => void) => () => void
+      onFrpcDiagnosis: (callback: (instanceId: string, diagnosis: FailureDiagnosis | null) => void) => () => void
       onConfigReload: (callback: () => void) => () => void
     }
   }
@@ -0,0 +1,171 @@
+import * as net from 'net'
+import { OutboundProxy } from './config-manager'
+
+const SOCKS5_ERRORS: Record<number, string> = {
+  0x01: 'general failure',
+  0x02: 'not allowed by ruleset',
+  0x03: 'network unreachable',
+  0x04: 'host unreachable',
+  0x05: 'connection refused',
+  0x06: 'TTL expired'
+}
+
+// Open a TCP connection to host:port, through the outbound proxy when one is
+// configured, the same way frpc reaches frps. Resolves once the target is reachable
+export function openConnection(
+  host: string,
+  port: number,
+  proxy: OutboundProxy | undefined,
+  timeout: number
+): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = new net.Socket()
+
+    const fail = (error: Error) => {
+      clearTimeout(timer)
+      socket.destroy()
+      reject(error)
+    }
+
+    const done = () => {
+      clearTimeout(timer)
+      socket.removeListener('error', fail)
+      socket.removeListener('close', onClose)
+      resolve(socket)
+    }
+
+    const onClose = () => fail(new Error('Proxy closed the connection'))
+
+    const timer = setTimeout(() => {
+      fail(new Error(proxy ? 'Proxy connection timeout' : 'Connection timeout'))
+    }, timeout)
+
+    socket.on('error', fail)
+
+    if (!proxy) {
+      socket.connect(port, host, done)
+      return
+    }
+
+    socket.connect(proxy.port, proxy.host, () => {
+      socket.on('close', onClose)
+      const handshake = proxy.type === 'socks5'
+        ? socks5Connect(socket, proxy, host, port)
+        : httpConnect(socket, proxy, host, port)
+      handshake.then(done, fail)
+    })
+  })
+}
+
+// Buffers incoming data so a handshake can wait for an exact number of bytes
+function createReader(socket: net.Socket) {
+  let buffer = Buffer.alloc(0)
+  let pending: (() => void) | null = null
+
+  const onData = (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk])
+    pending?.()
+  }
+  socket.on('data', onData)
+
+  // `ready` returns how many buffered bytes to take, or -1 to keep waiting
+  const take = (ready: () => number): Promise<Buffer> => new Promise((resolve) => {
+    pending = () => {
+      const length = ready()
+      if (length >= 0) {
+        const result = buffer.subarray(0, length)
+        buffer = buffer.subarray(length)
+        pending = null
+        resolve(result)
+      }
+    }
+    pending()
+  })
+
+  return {
+    read: (length: number) => take(() => buffer.length >= length ? length : -1),
+    readUntil: (delimiter: string) => take(() => {
+      const index = buffer.indexOf(delimiter)
+      return index === -1 ? -1 : index + delimiter.length
+    }),
+    // Bytes after the proxy's reply already belong to the target, e.g. a service banner.
+    // They go back on the paused socket, for the next reader to resume
+    close: () => {
+      socket.removeListener('data', onData)
+      if (buffer.length > 0) {
+        socket.pause()
+        socket.unshift(buffer)
+      }
+    }
+  }
+}
+
+async function httpConnect(socket: net.Socket, proxy: OutboundProxy, host: string, port: number): Promise<void> {
+  const reader = createReader(socket)
+  try {
+    const request = [`CONNECT ${host}:${port} HTTP/1.1`, `Host: ${host}:${port}`]
+    // NTLM needs a challenge/response exchange, so only basic credentials are sent up front
+    if (proxy.type === 'http' && proxy.username) {
+      const credentials = Buffer.from(`${proxy.username}:${proxy.password || ''}`).toString('base64')
+      request.push(`Proxy-Authorization: Basic ${credentials}`)
+    }
+    socket.write(request.join('\r\n') + '\r\n\r\n')
+
+    const response = (await reader.readUntil('\r\n\r\n')).toString()
+    const statusLine = response.split('\r\n')[0]
+    const status = parseInt(statusLine.split(' ')[1])
+
+    if (status === 407) {
+      throw new Error(proxy.type === 'ntlm'
+        ? 'Proxy requires NTLM authentication, which the test cannot perform. Start FRP to check the real connection'
+        : 'Proxy authentication failed')
+    }
+    if (status !== 200) {
+      throw new Error(`Proxy refused the connection: ${statusLine}`)
+    }
+  } finally {
+    reader.close()
+  }
+}
+
+async function socks5Connect(socket: net.Socket, proxy: OutboundProxy, host: string, port: number): Promise<void> {
+  const reader = createReader(socket)
+  try {
+    // Offer "no auth", plus username/password when credentials are configured
+    const methods = proxy.username ? [0x00, 0x02] : [0x00]
+    socket.write(Buffer.from([0x05, methods.length, ...methods]))
+
+    const [version, method] = await reader.read(2)
+    if (version !== 0x05) {
+      throw new Error('Proxy is not a SOCKS5 server')
+    }
+    if (method === 0x02) {
+      const user = Buffer.from(proxy.username || '')
+      const password = Buffer.from(proxy.password || '')
+      socket.write(Buffer.concat([Buffer.from([0x01, user.length]), user, Buffer.from([password.length]), password]))
+      const [, status] = await reader.read(2)
+      if (status !== 0x00) {
+        throw new Error('Proxy authentication failed')
+      }
+    } else if (method !== 0x00) {
+      throw new Error('Proxy does not accept any of the offered authentication methods')
+    }
+
+    // CONNECT by domain name so the proxy resolves the server, as frpc does
+    const address = Buffer.from(host)
+    const portBytes = Buffer.alloc(2)
+    portBytes.writeUInt16BE(port)
+    socket.write(Buffer.concat([Buffer.from([0x05, 0x01, 0x00, 0x03, address.length]), address, portBytes]))
+
+    const reply = await reader.read(4)
+    if (reply[1] !== 0x00) {
+      throw new Error(`Proxy could not reach the server: ${SOCKS5_ERRORS[reply[1]] || `error ${reply[1]}`}`)
+    }
+
+    // Skip the bound address (IPv4, domain name or IPv6) and port
+    const addressLength = reply[3] === 0x01 ? 4 : reply[3] === 0x04 ? 16 : (await reader.read(1))[0]
+    await reader.read(addressLength + 2)
+  } finally {
+    reader.close()
+  }
+}
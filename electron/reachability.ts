@@ -0,0 +1,53 @@
+import * as net from 'net'
+
+// Where an end-to-end check failed: frps itself, the tunnel's public port, or the local side
+export type ReachabilityStage = 'server' | 'remote' | 'local'
+
+export interface ReachabilityResult {
+  success: boolean
+  error?: string
+  detail?: string
+  stage?: ReachabilityStage
+}
+
+export interface Reply {
+  data: Buffer | null
+  // The peer closed the connection before sending anything
+  closed: boolean
+}
+
+// Wait for the first bytes a connection sends. Resolves with no data on timeout,
+// which is normal for protocols where the client speaks first
+export function readReply(socket: net.Socket, timeout: number): Promise<Reply> {
+  return new Promise((resolve) => {
+    const finish = (reply: Reply) => {
+      clearTimeout(timer)
+      socket.destroy()
+      resolve(reply)
+    }
+
+    const timer = setTimeout(() => finish({ data: null, closed: false }), timeout)
+    socket.once('data', (data: Buffer) => finish({ data, closed: false }))
+    socket.once('close', () => finish({ data: null, closed: true }))
+    socket.on('error', () => finish({ data: null, closed: true }))
+    // openConnection leaves the socket paused when the proxy handshake read past its reply
+    socket.resume()
+  })
+}
+
+// Banners often end in per-connection data (session ids, salts), so only the first
+// line is compared, and only a short prefix of binary greetings
+export function sameBanner(a: Buffer, b: Buffer): boolean {
+  const firstLine = (data: Buffer) => {
+    const end = data.indexOf(0x0a)
+    const line = end === -1 ? data : data.subarray(0, end)
+    return line.some(byte => byte < 0x09 || byte > 0x7e) ? line.subarray(0, 8) : line
+  }
+  return firstLine(a).equals(firstLine(b))
+}
+
+// Printable form of a banner for messages
+export function describeBanner(data: Buffer): string {
+  const text = data.toString('latin1').split(/\r?\n/)[0].replace(/[^\x20-\x7e]/g, '.')
+  return text.length > 40 ? `${text.slice(0, 40)}...` : text
+}
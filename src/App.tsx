@@ -2,40 +2,50 @@ import { useState, useEffect, useCallback } from 'react'
 import Settings from './components/Settings'
 import TunnelList from './components/TunnelList'
 import TunnelForm from './components/TunnelForm'
-import LogViewer from './components/LogViewer'
+import VisitorList from './components/VisitorList'
+import VisitorForm from './components/VisitorForm'
+import LogViewer, { LogEntry } from './components/LogViewer'
 import StatusBar from './components/StatusBar'
 
-interface Tunnel {
-  id: string
-  name: string
-  type: 'tcp'
-  localIP: string
-  localPort: number
-  remotePort: number
-  enabled: boolean
-}
+const DEFAULT_PORT_RANGE = { min: 6000, max: 6100 }
 
-interface AppConfig {
-  serverAddr: string
-  serverPort: number
-  authToken: string
-  remotePortMin: number
-  remotePortMax: number
-  autoStart: boolean
-  tunnels: Tunnel[]
-}
+const STOPPED_STATUS: FrpcStatus = { running: false, lastError: null, proxies: [], configIssues: [], reconnect: null, diagnosis: null, localServices: {} }
 
-const DEFAULT_PORT_RANGE = { min: 6000, max: 6100 }
+type ReloadResult = { success: boolean; error?: string }
+
+// The last end-to-end check of a tunnel; result is null while it runs
+type ReachabilityCheck = { instanceId: string; result: ReachabilityResult | null }
 
-type View = 'main' | 'settings' | 'add-tunnel' | 'edit-tunnel'
+type View = 'main' | 'settings' | 'add-tunnel' | 'edit-tunnel' | 'add-visitor' | 'edit-visitor'
 
 function App() {
   const [config, setConfig] = useState<AppConfig | null>(null)
   const [view, setView] = useState<View>('main')
   const [editingTunnel, setEditingTunnel] = useState<Tunnel | null>(null)
-  const [logs, setLogs] = useState<string[]>([])
-  const [isRunning, setIsRunning] = useState(false)
-  const [lastError, setLastError] = useState<string | null>(null)
+  const [editingVisitor, setEditingVisitor] = useState<Visitor | null>(null)
+  const [logs, setLogs] = useState<LogEntry[]>([])
+  // frpc status per server profile, keyed by instance (profile) id
+  const [statuses, setStatuses] = useState<Record<string, FrpcStatus>>({})
+  // Outcome of the last hot reload, keyed by the tunnel whose change triggered it
+  const [reloadResults, setReloadResults] = useState<Record<string, ReloadResult>>({})
+  // Keyed by tunnel id, dropped when the tunnel's frpc stops
+  const [reachability, setReachability] = useState<Record<string, ReachabilityCheck>>({})
+
+  const activeStatus = config ? statuses[config.activeProfileId] : undefined
+  const isRunning = activeStatus?.running ?? false
+  const lastError = activeStatus?.lastError ?? null
+  const configIssues = activeStatus?.configIssues ?? []
+
+  // The latest warning or error frpc logged for each tunnel, until an info line for it follows
+  const tunnelLogErrors: Record<string, string> = {}
+  for (const log of logs) {
+    if (!log.proxy || log.instanceId !== config?.activeProfileId) continue
+    if (log.level === 'warn' || log.level === 'error') {
+      tunnelLogErrors[log.proxy] = log.message
+    } else if (log.level === 'info') {
+      delete tunnelLogErrors[log.proxy]
+    }
+  }
 
   // Load config on mount
   useEffect(() => {
@@ -43,14 +53,35 @@ function App() {
     checkStatus()
 
     // Set up event listeners
-    const unsubLog = window.electronAPI.onFrpcLog((log) => {
-      setLogs(prev => [...prev.slice(-500), log])
+    const unsubLog = window.electronAPI.onFrpcLog((instanceId, line) => {
+      setLogs(prev => [...prev.slice(-500), { instanceId, ...line }])
     })
-    const unsubStatus = window.electronAPI.onFrpcStatus((status) => {
-      setIsRunning(status === 'running')
+    const unsubStatus = window.electronAPI.onFrpcStatus((instanceId, status) => {
+      updateStatus(instanceId, { running: status === 'running' })
+      if (status !== 'running') {
+        setReachability(prev => Object.fromEntries(Object.entries(prev).filter(([, check]) => check.instanceId !== instanceId)))
+      }
     })
-    const unsubError = window.electronAPI.onFrpcError((error) => {
-      setLastError(error)
+    const unsubError = window.electronAPI.onFrpcError((instanceId, error) => {
+      updateStatus(instanceId, { lastError: error })
+    })
+    const unsubProxies = window.electronAPI.onFrpcProxies((instanceId, proxies) => {
+      updateStatus(instanceId, { proxies })
+    })
+    const unsubConfigIssues = window.electronAPI.onFrpcConfigIssues((instanceId, configIssues) => {
+      updateStatus(instanceId, { configIssues })
+    })
+    const unsubReconnect = window.electronAPI.onFrpcReconnect((instanceId, reconnect) => {
+      updateStatus(instanceId, { reconnect })
+    })
+    const unsubLocalServices = window.electronAPI.onFrpcLocalServices((instanceId, localServices) => {
+      updateStatus(instanceId, { localServices })
+    })
+    const unsubReachability = window.electronAPI.onTunnelReachability((instanceId, tunnelId, result) => {
+      setReachability(prev => ({ ...prev, [tunnelId]: { instanceId, result } }))
+    })
+    const unsubDiagnosis = window.electronAPI.onFrpcDiagnosis((instanceId, diagnosis) => {
+      updateStatus(instanceId, { diagnosis })
     })
     const unsubConfigReload = window.electronAPI.onConfigReload(() => {
       loadConfig()
@@ -60,6 +91,12 @@ function App() {
       unsubLog()
       unsubStatus()
       unsubError()
+      unsubProxies()
+      unsubConfigIssues()
+      unsubReconnect()
+      unsubLocalServices()
+      unsubReachability()
+      unsubDiagnosis()
       unsubConfigReload()
     }
   }, [])
@@ -70,21 +107,82 @@ function App() {
   }
 
   const checkStatus = async () => {
-    const status = await window.electronAPI.getFrpcStatus()
-    setIsRunning(status.running)
-    setLastError(status.lastError)
+    setStatuses(await window.electronAPI.getFrpcStatuses())
+  }
+
+  const updateStatus = (instanceId: string, changes: Partial<FrpcStatus>) => {
+    setStatuses(prev => ({
+      ...prev,
+      [instanceId]: { ...(prev[instanceId] || STOPPED_STATUS), ...changes }
+    }))
   }
 
-  const handleSaveSettings = async (settings: Partial<AppConfig>) => {
+  const clearLastError = (instanceId: string) => {
+    updateStatus(instanceId, { lastError: null, diagnosis: null })
+  }
+
+  // Tunnel and visitor changes are hot-reloaded, so the other tunnels keep their connections
+  const reloadTunnels = async (tunnelId?: string) => {
+    if (!isRunning || !config) return
+    const result = await window.electronAPI.reloadFrpc(config.activeProfileId)
+    if (!tunnelId) return
+
+    setReloadResults(prev => ({ ...prev, [tunnelId]: result }))
+    if (result.success) {
+      setTimeout(() => {
+        setReloadResults(prev => {
+          if (prev[tunnelId] !== result) return prev
+          const { [tunnelId]: _, ...rest } = prev
+          return rest
+        })
+      }, 3000)
+    }
+  }
+
+  const handleSaveSettings = async (settings: Partial<AppConfig>, profileName: string) => {
+    // frpc cannot reload server, auth or transport settings, those need a full restart
+    const globalChanged = config !== null && (Object.keys(settings) as (keyof AppConfig)[])
+      .some(key => key !== 'autoStart' && JSON.stringify(settings[key]) !== JSON.stringify(config[key]))
     await window.electronAPI.saveConfig(settings)
+    const activeProfile = config?.profiles.find(p => p.id === config.activeProfileId)
+    if (activeProfile && profileName && profileName !== activeProfile.name) {
+      await window.electronAPI.renameProfile(activeProfile.id, profileName)
+    }
     await loadConfig()
     setView('main')
+    if (globalChanged && isRunning && config) {
+      await window.electronAPI.restartFrpc(config.activeProfileId)
+    }
+  }
+
+  // Switching only changes which profile is shown, other instances keep running
+  const handleSwitchProfile = async (id: string) => {
+    await window.electronAPI.switchProfile(id)
+    await loadConfig()
+  }
+
+  const handleAddProfile = async () => {
+    const profile = await window.electronAPI.addProfile(`Profile ${(config?.profiles.length || 0) + 1}`)
+    await handleSwitchProfile(profile.id)
+  }
+
+  // The imported profile becomes active, which remounts Settings on it
+  const handleImportProfile = async (name: string, imported: FrpcConfigImport) => {
+    await window.electronAPI.applyFrpcImport(name, imported)
+    await loadConfig()
+  }
+
+  const handleRemoveProfile = async (id: string) => {
+    await window.electronAPI.removeProfile(id)
+    await loadConfig()
+    await checkStatus()
   }
 
   const handleAddTunnel = async (tunnel: Omit<Tunnel, 'id'>) => {
-    await window.electronAPI.addTunnel(tunnel)
+    const added = await window.electronAPI.addTunnel(tunnel)
     await loadConfig()
     setView('main')
+    await reloadTunnels(added.id)
   }
 
   const handleUpdateTunnel = async (id: string, tunnel: Partial<Tunnel>) => {
@@ -92,20 +190,27 @@ function App() {
     await loadConfig()
     setEditingTunnel(null)
     setView('main')
+    await reloadTunnels(id)
   }
 
   const handleDeleteTunnel = async (id: string) => {
     await window.electronAPI.removeTunnel(id)
     await loadConfig()
+    await reloadTunnels()
   }
 
   const handleToggleTunnel = async (id: string, enabled: boolean) => {
     await window.electronAPI.updateTunnel(id, { enabled })
     await loadConfig()
-    // Restart FRP if it's running to apply the change
-    if (isRunning) {
-      await window.electronAPI.restartFrpc()
-    }
+    await reloadTunnels(id)
+  }
+
+  const handleCheckReachability = async (tunnelId: string) => {
+    if (!config) return
+    const instanceId = config.activeProfileId
+    setReachability(prev => ({ ...prev, [tunnelId]: { instanceId, result: null } }))
+    const result = await window.electronAPI.checkTunnelReachability(instanceId, tunnelId)
+    setReachability(prev => ({ ...prev, [tunnelId]: { instanceId, result } }))
   }
 
   const handleEditTunnel = (tunnel: Tunnel) => {
@@ -113,22 +218,53 @@ function App() {
     setView('edit-tunnel')
   }
 
+  const handleAddVisitor = async (visitor: Omit<Visitor, 'id'>) => {
+    await window.electronAPI.addVisitor(visitor)
+    await loadConfig()
+    setView('main')
+    await reloadTunnels()
+  }
+
+  const handleUpdateVisitor = async (id: string, visitor: Partial<Visitor>) => {
+    await window.electronAPI.updateVisitor(id, visitor)
+    await loadConfig()
+    setEditingVisitor(null)
+    setView('main')
+    await reloadTunnels()
+  }
+
+  const handleDeleteVisitor = async (id: string) => {
+    await window.electronAPI.removeVisitor(id)
+    await loadConfig()
+    await reloadTunnels()
+  }
+
+  const handleToggleVisitor = async (id: string, enabled: boolean) => {
+    await window.electronAPI.updateVisitor(id, { enabled })
+    await loadConfig()
+    await reloadTunnels()
+  }
+
+  const handleEditVisitor = (visitor: Visitor) => {
+    setEditingVisitor(visitor)
+    setView('edit-visitor')
+  }
+
   const handleStart = async () => {
-    setLastError(null)
-    const success = await window.electronAPI.startFrpc()
-    if (success) {
-      setIsRunning(true)
-    }
+    if (!config) return
+    clearLastError(config.activeProfileId)
+    await window.electronAPI.startFrpc(config.activeProfileId)
   }
 
   const handleStop = async () => {
-    await window.electronAPI.stopFrpc()
-    setIsRunning(false)
+    if (!config) return
+    await window.electronAPI.stopFrpc(config.activeProfileId)
   }
 
   const handleRestart = async () => {
-    setLastError(null)
-    await window.electronAPI.restartFrpc()
+    if (!config) return
+    clearLastError(config.activeProfileId)
+    await window.electronAPI.restartFrpc(config.activeProfileId)
   }
 
   const clearLogs = useCallback(() => {
@@ -143,12 +279,26 @@ function App() {
     <div className="app">
       <header className="header">
         <h1>Simply FRP GUI</h1>
-        <button
-          className="btn btn-secondary"
-          onClick={() => setView('settings')}
-        >
-          ⚙ Settings
-        </button>
+        <div className="header-actions">
+          <select
+            className="profile-select"
+            value={config.activeProfileId}
+            onChange={(e) => handleSwitchProfile(e.target.value)}
+            title="Server profile"
+          >
+            {config.profiles.map(profile => (
+              <option key={profile.id} value={profile.id}>
+                {statuses[profile.id]?.running ? `● ${profile.name}` : profile.name}
+              </option>
+            ))}
+          </select>
+          <button
+            className="btn btn-secondary"
+            onClick={() => setView('settings')}
+          >
+            ⚙ Settings
+          </button>
+        </div>
       </header>
 
       <main className="main">
@@ -171,29 +321,81 @@ function App() {
                   </>
                 )}
               </div>
-              <button
-                className="btn btn-secondary"
-                onClick={() => setView('add-tunnel')}
-              >
-                + Add Tunnel
-              </button>
+              <div className="control-buttons">
+                <button
+                  className="btn btn-secondary"
+                  onClick={() => setView('add-visitor')}
+                >
+                  + Add Visitor
+                </button>
+                <button
+                  className="btn btn-secondary"
+                  onClick={() => setView('add-tunnel')}
+                >
+                  + Add Tunnel
+                </button>
+              </div>
             </div>
 
+            {configIssues.length > 0 && (
+              <div className="config-issues">
+                <strong>frpc rejected the config</strong>
+                <ul>
+                  {configIssues.map((issue, index) => (
+                    <li key={index}>
+                      {issue.tunnel && <span className="config-issue-target">{issue.tunnel}{issue.field && ` › ${issue.field}`}: </span>}
+                      {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             <TunnelList
               tunnels={config.tunnels}
+              isRunning={isRunning}
+              proxyStatuses={activeStatus?.proxies ?? []}
+              reloadResults={reloadResults}
+              logErrors={tunnelLogErrors}
+              configIssues={configIssues}
+              localServices={activeStatus?.localServices ?? {}}
+              reachability={Object.fromEntries(Object.entries(reachability).map(([id, check]) => [id, check.result]))}
               serverAddr={config.serverAddr}
+              vhost={{
+                subDomainHost: config.subDomainHost,
+                httpPort: config.vhostHTTPPort,
+                httpsPort: config.vhostHTTPSPort
+              }}
               onEdit={handleEditTunnel}
               onDelete={handleDeleteTunnel}
               onToggle={handleToggleTunnel}
+              onCheckReachability={handleCheckReachability}
+            />
+
+            <VisitorList
+              visitors={config.visitors}
+              onEdit={handleEditVisitor}
+              onDelete={handleDeleteVisitor}
+              onToggle={handleToggleVisitor}
             />
 
-            <LogViewer logs={logs} onClear={clearLogs} />
+            <LogViewer
+              logs={logs}
+              profiles={config.profiles}
+              activeProfileId={config.activeProfileId}
+              proxyNames={[...config.tunnels, ...config.visitors].map(p => p.name)}
+              onClear={clearLogs}
+            />
           </>
         )}
 
         {view === 'settings' && (
           <Settings
+            key={config.activeProfileId}
             config={config}
+            onAddProfile={handleAddProfile}
+            onImportProfile={handleImportProfile}
+            onRemoveProfile={handleRemoveProfile}
             onSave={handleSaveSettings}
             onCancel={() => setView('main')}
           />
@@ -201,7 +403,7 @@ function App() {
 
         {view === 'add-tunnel' && (
           <TunnelForm
-            existingPorts={config.tunnels.map(t => t.remotePort)}
+            existingTunnels={config.tunnels}
             portRange={{
               min: config.remotePortMin || DEFAULT_PORT_RANGE.min,
               max: config.remotePortMax || DEFAULT_PORT_RANGE.max
@@ -214,7 +416,7 @@ function App() {
         {view === 'edit-tunnel' && editingTunnel && (
           <TunnelForm
             tunnel={editingTunnel}
-            existingPorts={config.tunnels.filter(t => t.id !== editingTunnel.id).map(t => t.remotePort)}
+            existingTunnels={config.tunnels.filter(t => t.id !== editingTunnel.id)}
             portRange={{
               min: config.remotePortMin || DEFAULT_PORT_RANGE.min,
               max: config.remotePortMax || DEFAULT_PORT_RANGE.max
@@ -223,9 +425,37 @@ function App() {
             onCancel={() => { setEditingTunnel(null); setView('main') }}
           />
         )}
+
+        {view === 'add-visitor' && (
+          <VisitorForm
+            existingVisitors={config.visitors}
+            onSave={handleAddVisitor}
+            onCancel={() => setView('main')}
+          />
+        )}
+
+        {view === 'edit-visitor' && editingVisitor && (
+          <VisitorForm
+            visitor={editingVisitor}
+            existingVisitors={config.visitors.filter(v => v.id !== editingVisitor.id)}
+            onSave={(v) => handleUpdateVisitor(editingVisitor.id, v)}
+            onCancel={() => { setEditingVisitor(null); setView('main') }}
+          />
+        )}
       </main>
 
-      <StatusBar isRunning={isRunning} lastError={lastError} />
+      <StatusBar
+        isRunning={isRunning}
+        lastError={lastError}
+        diagnosis={activeStatus?.diagnosis ?? null}
+        reconnect={activeStatus?.reconnect ?? null}
+        onRetryNow={() => {
+          window.electronAPI.retryFrpc(config.activeProfileId)
+            .catch(error => updateStatus(config.activeProfileId, { lastError: String(error) }))
+        }}
+        runningCount={config.profiles.filter(p => statuses[p.id]?.running).length}
+        serverCount={config.profiles.length}
+      />
     </div>
   )
 }
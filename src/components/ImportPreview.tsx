@@ -0,0 +1,94 @@
+import { useState } from 'react'
+
+const FORMAT_LABELS: Record<NativeConfigFormat, string> = {
+  toml: 'TOML',
+  ini: 'legacy INI',
+  yaml: 'YAML',
+  json: 'JSON'
+}
+
+interface ImportPreviewProps {
+  preview: FrpcConfigImport
+  onImport: (name: string) => void
+  onCancel: () => void
+}
+
+// What a hand-written frpc config will become, before it is saved as a new profile
+function ImportPreview({ preview, onImport, onCancel }: ImportPreviewProps) {
+  const [name, setName] = useState(preview.fileName.replace(/\.[^.]+$/, ''))
+  const { settings } = preview
+
+  return (
+    <div className="import-preview">
+      <h3>Import {preview.fileName} ({FORMAT_LABELS[preview.format]})</h3>
+      <p>
+        Server {settings.serverAddr || '(not set)'}:{settings.serverPort}, {settings.authMethod === 'oidc' ? 'OIDC' : 'token'} authentication
+      </p>
+
+      <h4>Tunnels ({preview.tunnels.length})</h4>
+      {preview.tunnels.length === 0 ? (
+        <p className="muted">None</p>
+      ) : (
+        <ul>
+          {preview.tunnels.map(tunnel => (
+            <li key={tunnel.name}>{tunnel.name} <span className="muted">{tunnel.type}</span></li>
+          ))}
+        </ul>
+      )}
+
+      {preview.visitors.length > 0 && (
+        <>
+          <h4>Visitors ({preview.visitors.length})</h4>
+          <ul>
+            {preview.visitors.map(visitor => (
+              <li key={visitor.name}>{visitor.name} <span className="muted">{visitor.type}</span></li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      {preview.skipped.length > 0 && (
+        <>
+          <h4>Skipped ({preview.skipped.length})</h4>
+          <ul className="import-skipped">
+            {preview.skipped.map(entry => (
+              <li key={`${entry.kind}-${entry.name}`}>
+                {entry.name} <span className="muted">{entry.kind}</span>: {entry.reason}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      {preview.warnings.map(warning => (
+        <p key={warning} className="warning-text">{warning}</p>
+      ))}
+
+      <div className="form-group">
+        <label htmlFor="importProfileName">New profile name</label>
+        <input
+          id="importProfileName"
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+      </div>
+
+      <div className="button-row">
+        <button type="button" className="btn btn-secondary btn-small" onClick={onCancel}>
+          Cancel
+        </button>
+        <button
+          type="button"
+          className="btn btn-primary btn-small"
+          disabled={!name.trim()}
+          onClick={() => onImport(name.trim())}
+        >
+          Import as New Profile
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default ImportPreview
@@ -1,38 +1,107 @@
-import { useRef, useEffect } from 'react'
+import { useRef, useEffect, useState } from 'react'
+
+export interface LogEntry extends LogLine {
+  instanceId: string
+}
+
+type LevelFilter = 'all' | 'info' | 'warn' | 'error'
+
+const LEVEL_FILTERS: { value: LevelFilter; label: string }[] = [
+  { value: 'all', label: 'All levels' },
+  { value: 'info', label: 'Info and above' },
+  { value: 'warn', label: 'Warnings and errors' },
+  { value: 'error', label: 'Errors only' }
+]
+
+const LEVEL_RANK: Record<LogLevel, number> = { trace: 0, debug: 1, info: 2, warn: 3, error: 4 }
+
+const LEVEL_LABELS: Record<LogLevel, string> = { trace: 'T', debug: 'D', info: 'I', warn: 'W', error: 'E' }
 
 interface LogViewerProps {
-  logs: string[]
+  logs: LogEntry[]
+  profiles: ProfileSummary[]
+  activeProfileId: string
+  // Tunnel and visitor names of the active profile, for the tunnel filter
+  proxyNames: string[]
   onClear: () => void
 }
 
-function LogViewer({ logs, onClear }: LogViewerProps) {
+function LogViewer({ logs, profiles, activeProfileId, proxyNames, onClear }: LogViewerProps) {
   const containerRef = useRef<HTMLDivElement>(null)
+  const [showAllServers, setShowAllServers] = useState(false)
+  const [levelFilter, setLevelFilter] = useState<LevelFilter>('all')
+  const [proxyFilter, setProxyFilter] = useState('')
+
+  // Lines that are not in frpc's log format have no level and only show under "All levels"
+  const visibleLogs = logs.filter(log =>
+    (showAllServers || log.instanceId === activeProfileId)
+    && (levelFilter === 'all' || (log.level !== undefined && LEVEL_RANK[log.level] >= LEVEL_RANK[levelFilter]))
+    && (!proxyFilter || log.proxy === proxyFilter)
+  )
+  const profileName = (id: string) => profiles.find(p => p.id === id)?.name || 'removed'
 
   // Auto-scroll to bottom when new logs arrive
   useEffect(() => {
     if (containerRef.current) {
       containerRef.current.scrollTop = containerRef.current.scrollHeight
     }
-  }, [logs])
+  }, [logs, showAllServers, levelFilter, proxyFilter])
 
   return (
     <div className="log-viewer">
       <div className="log-header">
         <h3>Logs</h3>
-        <button className="btn btn-small" onClick={onClear}>
-          Clear
-        </button>
+        <div className="log-actions">
+          <select
+            className="log-filter"
+            value={levelFilter}
+            onChange={(e) => setLevelFilter(e.target.value as LevelFilter)}
+          >
+            {LEVEL_FILTERS.map(({ value, label }) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <select
+            className="log-filter"
+            value={proxyFilter}
+            onChange={(e) => setProxyFilter(e.target.value)}
+          >
+            <option value="">All tunnels</option>
+            {proxyNames.map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+          {profiles.length > 1 && (
+            <label className="log-option">
+              <input
+                type="checkbox"
+                checked={showAllServers}
+                onChange={(e) => setShowAllServers(e.target.checked)}
+              />
+              All servers
+            </label>
+          )}
+          <button className="btn btn-small" onClick={onClear}>
+            Clear
+          </button>
+        </div>
       </div>
       <div className="log-content" ref={containerRef}>
-        {logs.length === 0 ? (
+        {visibleLogs.length === 0 ? (
           <div className="log-empty">No logs yet</div>
         ) : (
-          logs.map((log, index) => (
+          visibleLogs.map((log, index) => (
             <div
               key={index}
-              className={`log-line ${log.includes('[ERR]') ? 'log-error' : ''} ${log.includes('[GUI]') ? 'log-gui' : ''}`}
+              className={`log-line ${log.level ? `log-${log.level}` : ''} ${log.gui ? 'log-gui' : ''}`}
+              title={log.source}
             >
-              {log}
+              {showAllServers && <span className="log-instance">[{profileName(log.instanceId)}] </span>}
+              {log.timestamp && <span className="log-time">{log.timestamp} </span>}
+              {log.level && !log.gui && <span className="log-level">[{LEVEL_LABELS[log.level]}] </span>}
+              {log.gui && <span className="log-level">[GUI] </span>}
+              {log.proxy && <span className="log-proxy">[{log.proxy}] </span>}
+              {log.message}
             </div>
           ))
         )}
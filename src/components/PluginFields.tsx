@@ -0,0 +1,249 @@
+export const PLUGIN_LABELS: Record<TunnelPluginType, string> = {
+  static_file: 'Static file server',
+  socks5: 'SOCKS5 proxy',
+  http_proxy: 'HTTP proxy',
+  unix_domain_socket: 'Unix domain socket',
+  https2http: 'HTTPS → HTTP',
+  https2https: 'HTTPS → HTTPS'
+}
+
+// Plugins each expect a specific kind of proxy in front of them
+export function pluginTypesFor(tunnelType: TunnelType): TunnelPluginType[] {
+  switch (tunnelType) {
+    case 'tcp':
+    case 'stcp':
+    case 'xtcp':
+      return ['static_file', 'socks5', 'http_proxy', 'unix_domain_socket']
+    case 'https':
+      return ['https2http', 'https2https']
+    default:
+      return []
+  }
+}
+
+export function createPlugin(type: TunnelPluginType): TunnelPlugin {
+  switch (type) {
+    case 'static_file':
+      return { type, localPath: '' }
+    case 'unix_domain_socket':
+      return { type, unixPath: '/var/run/docker.sock' }
+    case 'https2http':
+    case 'https2https':
+      return { type, localAddr: '127.0.0.1:8080' }
+    default:
+      return { type }
+  }
+}
+
+interface PluginFieldsProps {
+  plugin: TunnelPlugin
+  onChange: (plugin: TunnelPlugin) => void
+}
+
+function PluginFields({ plugin, onChange }: PluginFieldsProps) {
+  const browse = async (title: string, directory: boolean, apply: (path: string) => TunnelPlugin) => {
+    const path = await window.electronAPI.selectPath({ title, directory })
+    if (path) {
+      onChange(apply(path))
+    }
+  }
+
+  switch (plugin.type) {
+    case 'static_file':
+      return (
+        <>
+          <div className="form-group">
+            <label htmlFor="pluginLocalPath">Directory to Serve</label>
+            <div className="input-with-button">
+              <input
+                id="pluginLocalPath"
+                type="text"
+                value={plugin.localPath}
+                onChange={(e) => onChange({ ...plugin, localPath: e.target.value })}
+                placeholder="/home/me/public"
+                required
+              />
+              <button
+                type="button"
+                className="btn btn-small btn-secondary"
+                onClick={() => browse('Directory to Serve', true, localPath => ({ ...plugin, localPath }))}
+              >
+                Browse
+              </button>
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="pluginStripPrefix">Strip Prefix</label>
+            <input
+              id="pluginStripPrefix"
+              type="text"
+              value={plugin.stripPrefix || ''}
+              onChange={(e) => onChange({ ...plugin, stripPrefix: e.target.value || undefined })}
+              placeholder="static"
+            />
+            <small>URL prefix removed before looking up files</small>
+          </div>
+
+          <BasicAuthFields
+            user={plugin.httpUser}
+            password={plugin.httpPassword}
+            onChange={(httpUser, httpPassword) => onChange({ ...plugin, httpUser, httpPassword })}
+          />
+        </>
+      )
+
+    case 'socks5':
+      return (
+        <BasicAuthFields
+          user={plugin.username}
+          password={plugin.password}
+          onChange={(username, password) => onChange({ ...plugin, username, password })}
+        />
+      )
+
+    case 'http_proxy':
+      return (
+        <BasicAuthFields
+          user={plugin.httpUser}
+          password={plugin.httpPassword}
+          onChange={(httpUser, httpPassword) => onChange({ ...plugin, httpUser, httpPassword })}
+        />
+      )
+
+    case 'unix_domain_socket':
+      return (
+        <div className="form-group">
+          <label htmlFor="pluginUnixPath">Socket Path</label>
+          <div className="input-with-button">
+            <input
+              id="pluginUnixPath"
+              type="text"
+              value={plugin.unixPath}
+              onChange={(e) => onChange({ ...plugin, unixPath: e.target.value })}
+              placeholder="/var/run/docker.sock"
+              required
+            />
+            <button
+              type="button"
+              className="btn btn-small btn-secondary"
+              onClick={() => browse('Unix Socket', false, unixPath => ({ ...plugin, unixPath }))}
+            >
+              Browse
+            </button>
+          </div>
+        </div>
+      )
+
+    case 'https2http':
+    case 'https2https':
+      return (
+        <>
+          <div className="form-group">
+            <label htmlFor="pluginLocalAddr">Local Address</label>
+            <input
+              id="pluginLocalAddr"
+              type="text"
+              value={plugin.localAddr}
+              onChange={(e) => onChange({ ...plugin, localAddr: e.target.value })}
+              placeholder="127.0.0.1:8080"
+              required
+            />
+            <small>
+              {plugin.type === 'https2http'
+                ? 'TLS is terminated by frpc and forwarded as plain HTTP'
+                : 'TLS is terminated by frpc and re-encrypted to the local service'}
+            </small>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="pluginCrtPath">Certificate File</label>
+            <div className="input-with-button">
+              <input
+                id="pluginCrtPath"
+                type="text"
+                value={plugin.crtPath || ''}
+                onChange={(e) => onChange({ ...plugin, crtPath: e.target.value || undefined })}
+                placeholder="/etc/ssl/example.crt"
+              />
+              <button
+                type="button"
+                className="btn btn-small btn-secondary"
+                onClick={() => browse('Certificate File', false, crtPath => ({ ...plugin, crtPath }))}
+              >
+                Browse
+              </button>
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="pluginKeyPath">Key File</label>
+            <div className="input-with-button">
+              <input
+                id="pluginKeyPath"
+                type="text"
+                value={plugin.keyPath || ''}
+                onChange={(e) => onChange({ ...plugin, keyPath: e.target.value || undefined })}
+                placeholder="/etc/ssl/example.key"
+              />
+              <button
+                type="button"
+                className="btn btn-small btn-secondary"
+                onClick={() => browse('Key File', false, keyPath => ({ ...plugin, keyPath }))}
+              >
+                Browse
+              </button>
+            </div>
+            <small>Leave both empty to let frpc use a self-signed certificate</small>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="pluginHostHeaderRewrite">Host Header Rewrite</label>
+            <input
+              id="pluginHostHeaderRewrite"
+              type="text"
+              value={plugin.hostHeaderRewrite || ''}
+              onChange={(e) => onChange({ ...plugin, hostHeaderRewrite: e.target.value || undefined })}
+              placeholder="127.0.0.1"
+            />
+          </div>
+        </>
+      )
+  }
+}
+
+interface BasicAuthFieldsProps {
+  user?: string
+  password?: string
+  onChange: (user: string | undefined, password: string | undefined) => void
+}
+
+function BasicAuthFields({ user, password, onChange }: BasicAuthFieldsProps) {
+  return (
+    <div className="form-row">
+      <div className="form-group">
+        <label htmlFor="pluginUser">Username</label>
+        <input
+          id="pluginUser"
+          type="text"
+          value={user || ''}
+          onChange={(e) => onChange(e.target.value || undefined, password)}
+          placeholder="Optional"
+        />
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="pluginPassword">Password</label>
+        <input
+          id="pluginPassword"
+          type="password"
+          value={password || ''}
+          onChange={(e) => onChange(user, e.target.value || undefined)}
+          disabled={!user}
+        />
+      </div>
+    </div>
+  )
+}
+
+export default PluginFields
@@ -1,54 +1,152 @@
-import { useState } from 'react'
-
-interface Tunnel {
-  id: string
-  name: string
-  type: 'tcp'
-  localIP: string
-  localPort: number
-  remotePort: number
-  enabled: boolean
+import { useEffect, useState } from 'react'
+import ImportPreview from './ImportPreview'
+
+const PROTOCOL_LABELS: Record<TransportProtocol, string> = {
+  tcp: 'TCP',
+  kcp: 'KCP (UDP)',
+  quic: 'QUIC (UDP)',
+  websocket: 'WebSocket',
+  wss: 'WebSocket over TLS (wss)'
+}
+
+const SOURCE_LABELS: Record<BinarySource, string> = {
+  custom: 'custom path',
+  installed: 'installed from archive',
+  bundled: 'bundled with the app',
+  system: 'system'
 }
 
-interface AppConfig {
-  serverAddr: string
-  serverPort: number
-  authToken: string
-  remotePortMin: number
-  remotePortMax: number
-  autoStart: boolean
-  tunnels: Tunnel[]
+// Empty number inputs leave the value to frpc's default
+function parseOptionalInt(value: string): number | undefined {
+  const parsed = parseInt(value)
+  return isNaN(parsed) ? undefined : parsed
 }
 
 interface SettingsProps {
   config: AppConfig
-  onSave: (settings: Partial<AppConfig>) => void
+  onAddProfile: () => void
+  onImportProfile: (name: string, imported: FrpcConfigImport) => void
+  onRemoveProfile: (id: string) => void
+  onSave: (settings: Partial<AppConfig>, profileName: string) => void
   onCancel: () => void
 }
 
-function Settings({ config, onSave, onCancel }: SettingsProps) {
+function Settings({ config, onAddProfile, onImportProfile, onRemoveProfile, onSave, onCancel }: SettingsProps) {
+  const activeProfile = config.profiles.find(p => p.id === config.activeProfileId)
+  const [profileName, setProfileName] = useState(activeProfile?.name || '')
   const [serverAddr, setServerAddr] = useState(config.serverAddr)
   const [serverPort, setServerPort] = useState(config.serverPort)
+  const [authMethod, setAuthMethod] = useState<AuthMethod>(config.authMethod || 'token')
   const [authToken, setAuthToken] = useState(config.authToken)
+  const [oidc, setOidc] = useState<OidcAuth>(config.oidc)
+  const [authAdditionalScopes, setAuthAdditionalScopes] = useState<AuthScope[]>(config.authAdditionalScopes || [])
   const [showToken, setShowToken] = useState(false)
   const [remotePortMin, setRemotePortMin] = useState(config.remotePortMin || 6000)
   const [remotePortMax, setRemotePortMax] = useState(config.remotePortMax || 6100)
+  const [subDomainHost, setSubDomainHost] = useState(config.subDomainHost || '')
+  const [vhostHTTPPort, setVhostHTTPPort] = useState(config.vhostHTTPPort || 80)
+  const [vhostHTTPSPort, setVhostHTTPSPort] = useState(config.vhostHTTPSPort || 443)
+  const [transport, setTransport] = useState<ServerTransport>(config.transport)
   const [autoStart, setAutoStart] = useState(config.autoStart || false)
+  const [reconnect, setReconnect] = useState<ReconnectPolicy>(config.reconnect)
+  const [reconnectError, setReconnectError] = useState<string | null>(null)
   const [testStatus, setTestStatus] = useState<'idle' | 'testing' | 'success' | 'error'>('idle')
   const [testError, setTestError] = useState<string | null>(null)
+  const [testDetail, setTestDetail] = useState<string | null>(null)
+  const [frpcInfo, setFrpcInfo] = useState<FrpcBinaryInfo | null | undefined>(undefined)
+  const [binaryError, setBinaryError] = useState<string | null>(null)
+  const [installing, setInstalling] = useState(false)
+  const [importPreview, setImportPreview] = useState<FrpcConfigImport | null>(null)
+  const [importError, setImportError] = useState<string | null>(null)
+  const [configPreview, setConfigPreview] = useState('')
+
+  const loadFrpcInfo = async () => {
+    setFrpcInfo(await window.electronAPI.getFrpcBinaryInfo())
+  }
+
+  useEffect(() => {
+    loadFrpcInfo()
+  }, [])
+
+  const updateOidc = (changes: Partial<OidcAuth>) => {
+    setOidc(prev => ({ ...prev, ...changes }))
+  }
+
+  const toggleScope = (scope: AuthScope, enabled: boolean) => {
+    setAuthAdditionalScopes(prev => enabled ? [...prev.filter(s => s !== scope), scope] : prev.filter(s => s !== scope))
+  }
+
+  const updateTransport = (changes: Partial<ServerTransport>) => {
+    setTransport(prev => ({ ...prev, ...changes }))
+  }
+
+  const selectProxyType = (type: ProxyType | '') => {
+    setTransport(prev => ({
+      ...prev,
+      proxy: type ? { host: '', port: 8080, ...prev.proxy, type } : undefined
+    }))
+  }
+
+  const updateProxy = (changes: Partial<OutboundProxy>) => {
+    setTransport(prev => ({ ...prev, proxy: prev.proxy && { ...prev.proxy, ...changes } }))
+  }
+
+  const updateReconnect = (changes: Partial<ReconnectPolicy>) => {
+    setReconnect(prev => ({ ...prev, ...changes }))
+  }
+
+  const updateTLS = (changes: Partial<ServerTLS>) => {
+    setTransport(prev => ({ ...prev, tls: { ...prev.tls, ...changes } }))
+  }
+
+  const browse = async (title: string, apply: (path: string) => void) => {
+    const path = await window.electronAPI.selectPath({ title })
+    if (path) {
+      apply(path)
+    }
+  }
+
+  const profileSettings = (): Partial<AppConfig> => ({
+    serverAddr,
+    serverPort,
+    authMethod,
+    authToken,
+    oidc,
+    authAdditionalScopes: authAdditionalScopes.length > 0 ? authAdditionalScopes : undefined,
+    remotePortMin,
+    remotePortMax,
+    subDomainHost,
+    vhostHTTPPort,
+    vhostHTTPSPort,
+    transport
+  })
+
+  // The preview comes from the same serializer that writes the real config
+  const previewFormat = frpcInfo?.configFormat || 'toml'
+  useEffect(() => {
+    let current = true
+    window.electronAPI.previewFrpcConfig(profileSettings(), previewFormat, showToken).then(preview => {
+      if (current) {
+        setConfigPreview(preview)
+      }
+    })
+    return () => {
+      current = false
+    }
+  }, [serverAddr, serverPort, authMethod, authToken, oidc, authAdditionalScopes, remotePortMin, remotePortMax,
+    subDomainHost, vhostHTTPPort, vhostHTTPSPort, transport, previewFormat, showToken])
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
+    // The reconnect policy is app-wide and applies to running clients right away
+    const result = await window.electronAPI.setReconnectPolicy(reconnect)
+    setReconnectError(result.success ? null : result.error || 'Invalid reconnect settings')
+    if (!result.success) {
+      return
+    }
     // Save auto-start setting
     window.electronAPI.setAutoStart(autoStart)
-    onSave({
-      serverAddr,
-      serverPort,
-      authToken,
-      remotePortMin,
-      remotePortMax,
-      autoStart
-    })
+    onSave({ ...profileSettings(), autoStart }, profileName.trim())
   }
 
   const handleTestConnection = async () => {
@@ -59,9 +157,11 @@ function Settings({ config, onSave, onCancel }: SettingsProps) {
     }
     setTestStatus('testing')
     setTestError(null)
-    const result = await window.electronAPI.testConnection(serverAddr, serverPort)
+    setTestDetail(null)
+    const result = await window.electronAPI.testConnection(serverAddr, serverPort, transport)
     if (result.success) {
       setTestStatus('success')
+      setTestDetail(result.detail || null)
     } else {
       setTestStatus('error')
       setTestError(result.error || 'Connection failed')
@@ -74,6 +174,28 @@ function Settings({ config, onSave, onCancel }: SettingsProps) {
     await window.electronAPI.exportConfig()
   }
 
+  // Binary changes apply immediately, independent of Save
+  const applyBinaryResult = async (result: { success: boolean; error?: string }) => {
+    setBinaryError(result.success || result.error === 'Cancelled' ? null : result.error || 'Failed')
+    await loadFrpcInfo()
+  }
+
+  const handleChooseBinary = async () => {
+    const path = await window.electronAPI.selectPath({ title: 'Select frpc Binary' })
+    if (path) {
+      await applyBinaryResult(await window.electronAPI.setFrpcBinaryPath(path))
+    }
+  }
+
+  const handleInstallArchive = async () => {
+    setInstalling(true)
+    try {
+      await applyBinaryResult(await window.electronAPI.installFrpcArchive())
+    } finally {
+      setInstalling(false)
+    }
+  }
+
   const handleImport = async () => {
     const result = await window.electronAPI.importConfig()
     if (result.success) {
@@ -82,28 +204,10 @@ function Settings({ config, onSave, onCancel }: SettingsProps) {
     }
   }
 
-  const generateConfigPreview = () => {
-    const maskedToken = showToken ? authToken : (authToken ? '••••••••••••' : '')
-    const lines = [
-      `serverAddr = "${serverAddr}"`,
-      `serverPort = ${serverPort}`,
-      '',
-      'auth.method = "token"',
-      `auth.token = "${maskedToken}"`,
-    ]
-
-    const enabledTunnels = config.tunnels.filter(t => t.enabled !== false)
-    for (const tunnel of enabledTunnels) {
-      lines.push('')
-      lines.push('[[proxies]]')
-      lines.push(`name = "${tunnel.name}"`)
-      lines.push(`type = "${tunnel.type}"`)
-      lines.push(`localIP = "${tunnel.localIP}"`)
-      lines.push(`localPort = ${tunnel.localPort}`)
-      lines.push(`remotePort = ${tunnel.remotePort}`)
-    }
-
-    return lines.join('\n')
+  const handlePreviewFrpcImport = async () => {
+    const result = await window.electronAPI.previewFrpcImport()
+    setImportError(result.success || result.error === 'Cancelled' ? null : result.error || 'Import failed')
+    setImportPreview(result.preview || null)
   }
 
   return (
@@ -111,6 +215,36 @@ function Settings({ config, onSave, onCancel }: SettingsProps) {
       <div className="settings-panel">
         <h2>Settings</h2>
         <form onSubmit={handleSubmit}>
+        <div className="form-group">
+          <label htmlFor="profileName">Server Profile</label>
+          <div className="input-with-button">
+            <input
+              id="profileName"
+              type="text"
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+              placeholder="Production"
+              required
+            />
+            <button type="button" className="btn btn-small btn-secondary" onClick={onAddProfile}>
+              New
+            </button>
+            <button
+              type="button"
+              className="btn btn-small btn-danger"
+              disabled={config.profiles.length <= 1}
+              onClick={() => {
+                if (confirm(`Delete profile "${activeProfile?.name}" and its tunnels?`)) {
+                  onRemoveProfile(config.activeProfileId)
+                }
+              }}
+            >
+              Delete
+            </button>
+          </div>
+          <small>Each profile has its own server, token, port range and tunnels. Switch profiles from the header or tray</small>
+        </div>
+
         <div className="form-group">
           <label htmlFor="serverAddr">FRP Server Address</label>
           <input
@@ -145,30 +279,394 @@ function Settings({ config, onSave, onCancel }: SettingsProps) {
             </button>
           </div>
           {testError && <small className="error-text">{testError}</small>}
+          {testDetail && <small>{testDetail}</small>}
         </div>
 
         <div className="form-group">
-          <label htmlFor="authToken">Auth Token</label>
-          <div className="input-with-icon">
-            <input
-              id="authToken"
-              type={showToken ? 'text' : 'password'}
-              value={authToken}
-              onChange={(e) => setAuthToken(e.target.value)}
-              placeholder="Your FRP auth token"
-              required
-            />
-            <button
-              type="button"
-              className="btn-icon-inline"
-              onClick={() => setShowToken(!showToken)}
-              title={showToken ? 'Hide token' : 'Show token'}
-            >
-              {showToken ? '🙈' : '👁'}
-            </button>
+          <label htmlFor="authMethod">Authentication</label>
+          <select
+            id="authMethod"
+            value={authMethod}
+            onChange={(e) => setAuthMethod(e.target.value as AuthMethod)}
+          >
+            <option value="token">Token</option>
+            <option value="oidc">OIDC client credentials</option>
+          </select>
+        </div>
+
+        {authMethod === 'token' ? (
+          <div className="form-group">
+            <label htmlFor="authToken">Auth Token</label>
+            <div className="input-with-icon">
+              <input
+                id="authToken"
+                type={showToken ? 'text' : 'password'}
+                value={authToken}
+                onChange={(e) => setAuthToken(e.target.value)}
+                placeholder="Your FRP auth token"
+                required
+              />
+              <button
+                type="button"
+                className="btn-icon-inline"
+                onClick={() => setShowToken(!showToken)}
+                title={showToken ? 'Hide token' : 'Show token'}
+              >
+                {showToken ? '🙈' : '👁'}
+              </button>
+            </div>
           </div>
+        ) : (
+          <>
+            <div className="form-row">
+              <div className="form-group">
+                <label htmlFor="oidcClientId">Client ID</label>
+                <input
+                  id="oidcClientId"
+                  type="text"
+                  value={oidc.clientId}
+                  onChange={(e) => updateOidc({ clientId: e.target.value })}
+                  required
+                />
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="oidcClientSecret">Client Secret</label>
+                <div className="input-with-icon">
+                  <input
+                    id="oidcClientSecret"
+                    type={showToken ? 'text' : 'password'}
+                    value={oidc.clientSecret}
+                    onChange={(e) => updateOidc({ clientSecret: e.target.value })}
+                    required
+                  />
+                  <button
+                    type="button"
+                    className="btn-icon-inline"
+                    onClick={() => setShowToken(!showToken)}
+                    title={showToken ? 'Hide secret' : 'Show secret'}
+                  >
+                    {showToken ? '🙈' : '👁'}
+                  </button>
+                </div>
+              </div>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="oidcTokenEndpointURL">Token Endpoint URL</label>
+              <input
+                id="oidcTokenEndpointURL"
+                type="url"
+                value={oidc.tokenEndpointURL}
+                onChange={(e) => updateOidc({ tokenEndpointURL: e.target.value })}
+                placeholder="https://auth.example.com/oauth2/token"
+                required
+              />
+            </div>
+
+            <div className="form-row">
+              <div className="form-group">
+                <label htmlFor="oidcAudience">Audience</label>
+                <input
+                  id="oidcAudience"
+                  type="text"
+                  value={oidc.audience || ''}
+                  onChange={(e) => updateOidc({ audience: e.target.value || undefined })}
+                  placeholder="Optional"
+                />
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="oidcScope">Scope</label>
+                <input
+                  id="oidcScope"
+                  type="text"
+                  value={oidc.scope || ''}
+                  onChange={(e) => updateOidc({ scope: e.target.value || undefined })}
+                  placeholder="Optional"
+                />
+              </div>
+            </div>
+          </>
+        )}
+
+        <div className="form-group">
+          <label className="toggle-label">
+            <span>Authenticate heartbeats</span>
+            <label className="toggle">
+              <input
+                type="checkbox"
+                checked={authAdditionalScopes.includes('HeartBeats')}
+                onChange={(e) => toggleScope('HeartBeats', e.target.checked)}
+              />
+              <span className="toggle-slider"></span>
+            </label>
+          </label>
+          <label className="toggle-label">
+            <span>Authenticate new work connections</span>
+            <label className="toggle">
+              <input
+                type="checkbox"
+                checked={authAdditionalScopes.includes('NewWorkConns')}
+                onChange={(e) => toggleScope('NewWorkConns', e.target.checked)}
+              />
+              <span className="toggle-slider"></span>
+            </label>
+          </label>
+          <small>Must match auth.additionalScopes in frps.toml</small>
         </div>
 
+        <details className="form-advanced">
+          <summary>Transport &amp; TLS</summary>
+
+          <div className="form-group">
+            <label htmlFor="transportProtocol">Protocol</label>
+            <select
+              id="transportProtocol"
+              value={transport.protocol}
+              onChange={(e) => updateTransport({ protocol: e.target.value as TransportProtocol })}
+            >
+              {(Object.keys(PROTOCOL_LABELS) as TransportProtocol[]).map(protocol => (
+                <option key={protocol} value={protocol}>{PROTOCOL_LABELS[protocol]}</option>
+              ))}
+            </select>
+            <small>
+              {transport.protocol === 'kcp' || transport.protocol === 'quic'
+                ? `The server port must be frps's ${transport.protocol}BindPort (UDP)`
+                : 'Use wss on port 443 where only HTTPS traffic is allowed out'}
+            </small>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="proxyType">Outbound Proxy</label>
+            <select
+              id="proxyType"
+              value={transport.proxy?.type || ''}
+              onChange={(e) => selectProxyType(e.target.value as ProxyType | '')}
+            >
+              <option value="">None (connect directly)</option>
+              <option value="http">HTTP</option>
+              <option value="socks5">SOCKS5</option>
+              <option value="ntlm">NTLM</option>
+            </select>
+            <small>For networks that only allow traffic out through a proxy. Not used with KCP or QUIC</small>
+          </div>
+
+          {transport.proxy && (
+            <>
+              <div className="form-row">
+                <div className="form-group">
+                  <label htmlFor="proxyHost">Proxy Host</label>
+                  <input
+                    id="proxyHost"
+                    type="text"
+                    value={transport.proxy.host}
+                    onChange={(e) => updateProxy({ host: e.target.value })}
+                    placeholder="proxy.example.com"
+                    required
+                  />
+                </div>
+
+                <div className="form-group">
+                  <label htmlFor="proxyPort">Proxy Port</label>
+                  <input
+                    id="proxyPort"
+                    type="number"
+                    value={transport.proxy.port}
+                    onChange={(e) => updateProxy({ port: parseInt(e.target.value) || 0 })}
+                    min={1}
+                    max={65535}
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="form-row">
+                <div className="form-group">
+                  <label htmlFor="proxyUsername">Proxy Username</label>
+                  <input
+                    id="proxyUsername"
+                    type="text"
+                    value={transport.proxy.username || ''}
+                    onChange={(e) => updateProxy({ username: e.target.value || undefined })}
+                    placeholder="Optional"
+                  />
+                </div>
+
+                <div className="form-group">
+                  <label htmlFor="proxyPassword">Proxy Password</label>
+                  <input
+                    id="proxyPassword"
+                    type="password"
+                    value={transport.proxy.password || ''}
+                    onChange={(e) => updateProxy({ password: e.target.value || undefined })}
+                    disabled={!transport.proxy.username}
+                  />
+                </div>
+              </div>
+            </>
+          )}
+
+          <div className="form-group">
+            <label className="toggle-label">
+              <span>Encrypt the server connection with TLS</span>
+              <label className="toggle">
+                <input
+                  type="checkbox"
+                  checked={transport.tls.enable}
+                  onChange={(e) => updateTLS({ enable: e.target.checked })}
+                />
+                <span className="toggle-slider"></span>
+              </label>
+            </label>
+          </div>
+
+          {transport.tls.enable && (
+            <>
+              <div className="form-row">
+                <div className="form-group">
+                  <label htmlFor="tlsCertFile">Client Certificate</label>
+                  <div className="input-with-button">
+                    <input
+                      id="tlsCertFile"
+                      type="text"
+                      value={transport.tls.certFile || ''}
+                      onChange={(e) => updateTLS({ certFile: e.target.value || undefined })}
+                      placeholder="Optional"
+                    />
+                    <button
+                      type="button"
+                      className="btn btn-small btn-secondary"
+                      onClick={() => browse('Client Certificate', certFile => updateTLS({ certFile }))}
+                    >
+                      Browse
+                    </button>
+                  </div>
+                </div>
+
+                <div className="form-group">
+                  <label htmlFor="tlsKeyFile">Client Key</label>
+                  <div className="input-with-button">
+                    <input
+                      id="tlsKeyFile"
+                      type="text"
+                      value={transport.tls.keyFile || ''}
+                      onChange={(e) => updateTLS({ keyFile: e.target.value || undefined })}
+                      placeholder="Optional"
+                    />
+                    <button
+                      type="button"
+                      className="btn btn-small btn-secondary"
+                      onClick={() => browse('Client Key', keyFile => updateTLS({ keyFile }))}
+                    >
+                      Browse
+                    </button>
+                  </div>
+                </div>
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="tlsTrustedCaFile">Trusted CA</label>
+                <div className="input-with-button">
+                  <input
+                    id="tlsTrustedCaFile"
+                    type="text"
+                    value={transport.tls.trustedCaFile || ''}
+                    onChange={(e) => updateTLS({ trustedCaFile: e.target.value || undefined })}
+                    placeholder="Optional"
+                  />
+                  <button
+                    type="button"
+                    className="btn btn-small btn-secondary"
+                    onClick={() => browse('Trusted CA', trustedCaFile => updateTLS({ trustedCaFile }))}
+                  >
+                    Browse
+                  </button>
+                </div>
+                <small>The server certificate is only verified when a trusted CA is set</small>
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="tlsServerName">TLS Server Name</label>
+                <input
+                  id="tlsServerName"
+                  type="text"
+                  value={transport.tls.serverName || ''}
+                  onChange={(e) => updateTLS({ serverName: e.target.value || undefined })}
+                  placeholder={serverAddr || 'frp.example.com'}
+                />
+              </div>
+
+              <div className="form-group">
+                <label className="toggle-label">
+                  <span>Disable custom TLS first byte</span>
+                  <label className="toggle">
+                    <input
+                      type="checkbox"
+                      checked={transport.tls.disableCustomTLSFirstByte ?? frpcInfo?.customTLSFirstByteDisabled ?? true}
+                      onChange={(e) => updateTLS({ disableCustomTLSFirstByte: e.target.checked })}
+                    />
+                    <span className="toggle-slider"></span>
+                  </label>
+                </label>
+                <small>Needed when frps sits behind a TLS-terminating proxy or load balancer</small>
+              </div>
+            </>
+          )}
+
+          <div className="form-group">
+            <label className="toggle-label">
+              <span>Multiplex tunnels over one connection (tcpMux)</span>
+              <label className="toggle">
+                <input
+                  type="checkbox"
+                  checked={transport.tcpMux !== false}
+                  onChange={(e) => updateTransport({ tcpMux: e.target.checked ? undefined : false })}
+                />
+                <span className="toggle-slider"></span>
+              </label>
+            </label>
+            <small>Must match transport.tcpMux in frps.toml</small>
+          </div>
+
+          <div className="form-row form-row-3">
+            <div className="form-group">
+              <label htmlFor="poolCount">Pool Count</label>
+              <input
+                id="poolCount"
+                type="number"
+                value={transport.poolCount ?? ''}
+                onChange={(e) => updateTransport({ poolCount: parseOptionalInt(e.target.value) })}
+                min={0}
+                placeholder="0"
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="heartbeatInterval">Heartbeat (s)</label>
+              <input
+                id="heartbeatInterval"
+                type="number"
+                value={transport.heartbeatInterval ?? ''}
+                onChange={(e) => updateTransport({ heartbeatInterval: parseOptionalInt(e.target.value) })}
+                min={-1}
+                placeholder="Default"
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="heartbeatTimeout">Timeout (s)</label>
+              <input
+                id="heartbeatTimeout"
+                type="number"
+                value={transport.heartbeatTimeout ?? ''}
+                onChange={(e) => updateTransport({ heartbeatTimeout: parseOptionalInt(e.target.value) })}
+                min={-1}
+                placeholder="Default"
+              />
+            </div>
+          </div>
+          <small>Pooled connections are opened in advance to speed up new requests. A heartbeat of -1 disables it</small>
+        </details>
+
         <div className="form-group">
           <label>Remote Port Range</label>
           <div className="form-row">
@@ -200,6 +698,45 @@ function Settings({ config, onSave, onCancel }: SettingsProps) {
           <small>Available ports for tunnel remote port selection</small>
         </div>
 
+        <div className="form-group">
+          <label>HTTP/HTTPS Virtual Hosts</label>
+          <div className="form-group">
+            <label htmlFor="subDomainHost">Subdomain Host</label>
+            <input
+              id="subDomainHost"
+              type="text"
+              value={subDomainHost}
+              onChange={(e) => setSubDomainHost(e.target.value)}
+              placeholder="frp.example.com"
+            />
+          </div>
+          <div className="form-row">
+            <div className="form-group">
+              <label htmlFor="vhostHTTPPort">HTTP Port</label>
+              <input
+                id="vhostHTTPPort"
+                type="number"
+                value={vhostHTTPPort}
+                onChange={(e) => setVhostHTTPPort(parseInt(e.target.value) || 80)}
+                min={1}
+                max={65535}
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="vhostHTTPSPort">HTTPS Port</label>
+              <input
+                id="vhostHTTPSPort"
+                type="number"
+                value={vhostHTTPSPort}
+                onChange={(e) => setVhostHTTPSPort(parseInt(e.target.value) || 443)}
+                min={1}
+                max={65535}
+              />
+            </div>
+          </div>
+          <small>Match subDomainHost, vhostHTTPPort and vhostHTTPSPort in frps.toml. Used to build tunnel URLs</small>
+        </div>
+
         <div className="form-group">
           <label className="toggle-label">
             <span>Start on boot</span>
@@ -215,6 +752,151 @@ function Settings({ config, onSave, onCancel }: SettingsProps) {
           <small>Automatically start the app when you log in</small>
         </div>
 
+        <details className="form-advanced" open={!!reconnectError}>
+          <summary>Reconnect</summary>
+
+          <div className="form-group">
+            <label className="toggle-label">
+              <span>Reconnect automatically</span>
+              <label className="toggle">
+                <input
+                  type="checkbox"
+                  checked={reconnect.enabled}
+                  onChange={(e) => updateReconnect({ enabled: e.target.checked })}
+                />
+                <span className="toggle-slider"></span>
+              </label>
+            </label>
+            <small>Restart frpc when it exits without being stopped</small>
+          </div>
+
+          <div className="form-row form-row-3">
+            <div className="form-group">
+              <label htmlFor="reconnectBaseDelay">First delay (s)</label>
+              <input
+                id="reconnectBaseDelay"
+                type="number"
+                value={reconnect.baseDelaySeconds}
+                onChange={(e) => updateReconnect({ baseDelaySeconds: parseFloat(e.target.value) })}
+                min={1}
+                disabled={!reconnect.enabled}
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="reconnectMultiplier">Multiplier</label>
+              <input
+                id="reconnectMultiplier"
+                type="number"
+                value={reconnect.multiplier}
+                onChange={(e) => updateReconnect({ multiplier: parseFloat(e.target.value) })}
+                min={1}
+                step={0.5}
+                disabled={!reconnect.enabled}
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="reconnectMaxDelay">Max delay (s)</label>
+              <input
+                id="reconnectMaxDelay"
+                type="number"
+                value={reconnect.maxDelaySeconds}
+                onChange={(e) => updateReconnect({ maxDelaySeconds: parseFloat(e.target.value) })}
+                min={1}
+                disabled={!reconnect.enabled}
+              />
+            </div>
+          </div>
+
+          <div className="form-row form-row-3">
+            <div className="form-group">
+              <label htmlFor="reconnectJitter">Jitter (%)</label>
+              <input
+                id="reconnectJitter"
+                type="number"
+                value={Math.round(reconnect.jitter * 100)}
+                onChange={(e) => updateReconnect({ jitter: parseFloat(e.target.value) / 100 })}
+                min={0}
+                max={100}
+                disabled={!reconnect.enabled}
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="reconnectMaxAttempts">Attempts</label>
+              <input
+                id="reconnectMaxAttempts"
+                type="number"
+                value={reconnect.maxAttempts}
+                onChange={(e) => updateReconnect({ maxAttempts: parseInt(e.target.value) || 0 })}
+                min={0}
+                placeholder="0"
+                disabled={!reconnect.enabled}
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="reconnectStableUptime">Stable after (s)</label>
+              <input
+                id="reconnectStableUptime"
+                type="number"
+                value={reconnect.stableUptimeSeconds}
+                onChange={(e) => updateReconnect({ stableUptimeSeconds: parseFloat(e.target.value) })}
+                min={0}
+                disabled={!reconnect.enabled}
+              />
+            </div>
+          </div>
+          <small>
+            Each attempt waits longer by the multiplier, up to the max delay. 0 attempts retries forever.
+            Running longer than the stable time resets the attempt count
+          </small>
+          {reconnectError && <small className="error-text">{reconnectError}</small>}
+        </details>
+
+        <div className="form-group">
+          <label>frpc Binary</label>
+          {frpcInfo === undefined ? (
+            <small>Checking...</small>
+          ) : frpcInfo === null ? (
+            <small className="error-text">frpc not found. Choose a binary or install one from a release archive</small>
+          ) : (
+            <>
+              <small>
+                {frpcInfo.version ? `Version ${frpcInfo.version}` : 'Unknown version'} at {frpcInfo.path} ({SOURCE_LABELS[frpcInfo.source]})
+              </small>
+              <small className="binary-hash">SHA-256 {frpcInfo.sha256}</small>
+              {!frpcInfo.supported && (
+                <small className="error-text">This frpc is too old to be started by the GUI. Please update FRP</small>
+              )}
+              {frpcInfo.supported && frpcInfo.configFormat === 'ini' && (
+                <small className="warning-text">This frpc predates TOML configs, a legacy INI config will be written instead</small>
+              )}
+            </>
+          )}
+          <div className="button-row">
+            <button type="button" className="btn btn-secondary btn-small" onClick={handleChooseBinary}>
+              Choose...
+            </button>
+            {(frpcInfo === null || frpcInfo?.source === 'custom') && (
+              <button
+                type="button"
+                className="btn btn-secondary btn-small"
+                onClick={async () => applyBinaryResult(await window.electronAPI.setFrpcBinaryPath(''))}
+              >
+                Use Default
+              </button>
+            )}
+            <button
+              type="button"
+              className="btn btn-secondary btn-small"
+              onClick={handleInstallArchive}
+              disabled={installing}
+            >
+              {installing ? 'Installing...' : 'Install from Archive...'}
+            </button>
+          </div>
+          {binaryError && <small className="error-text">{binaryError}</small>}
+          <small>Install extracts frpc from an official frp_&lt;version&gt;_&lt;os&gt;_&lt;arch&gt;.tar.gz (or .zip on Windows) you downloaded</small>
+        </div>
+
         <div className="form-group">
           <label>Backup & Restore</label>
           <div className="button-row">
@@ -224,8 +906,19 @@ function Settings({ config, onSave, onCancel }: SettingsProps) {
             <button type="button" className="btn btn-secondary btn-small" onClick={handleImport}>
               Import Config
             </button>
+            <button type="button" className="btn btn-secondary btn-small" onClick={handlePreviewFrpcImport}>
+              Import frpc Config...
+            </button>
           </div>
-          <small>Export saves tunnels (not token). Import preserves your token.</small>
+          {importError && <small className="error-text">{importError}</small>}
+          {importPreview && (
+            <ImportPreview
+              preview={importPreview}
+              onImport={(name) => onImportProfile(name, importPreview)}
+              onCancel={() => setImportPreview(null)}
+            />
+          )}
+          <small>Export saves tunnels (not token, client secret, proxy password or secret keys). Import preserves them. Import frpc Config creates a new profile from a frpc.toml, .ini, .yaml or .json file.</small>
         </div>
 
         <div className="form-actions">
@@ -241,9 +934,9 @@ function Settings({ config, onSave, onCancel }: SettingsProps) {
 
       <div className="config-preview">
         <div className="config-header">
-          <h3>Config Preview (frpc.toml)</h3>
+          <h3>Config Preview (frpc.{previewFormat})</h3>
         </div>
-        <pre className="config-content">{generateConfigPreview()}</pre>
+        <pre className="config-content">{configPreview}</pre>
       </div>
     </div>
   )
@@ -1,18 +1,53 @@
+import { useEffect, useState } from 'react'
+
 interface StatusBarProps {
   isRunning: boolean
   lastError: string | null
+  diagnosis: FailureDiagnosis | null
+  reconnect: ReconnectState | null
+  onRetryNow: () => void
+  runningCount: number
+  serverCount: number
 }
 
-function StatusBar({ isRunning, lastError }: StatusBarProps) {
+function StatusBar({ isRunning, lastError, diagnosis, reconnect, onRetryNow, runningCount, serverCount }: StatusBarProps) {
+  const [now, setNow] = useState(Date.now())
+
+  // Tick the reconnect countdown
+  useEffect(() => {
+    if (!reconnect) return
+    setNow(Date.now())
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [reconnect])
+
   return (
     <footer className="status-bar">
       <div className="status-indicator">
         <span className={`status-dot ${isRunning ? 'running' : 'stopped'}`} />
         <span>{isRunning ? 'Running' : 'Stopped'}</span>
+        {serverCount > 1 && (
+          <span className="status-aggregate">
+            {runningCount} of {serverCount} servers running
+          </span>
+        )}
       </div>
-      {lastError && (
+      {reconnect && (
+        <div className="status-reconnect">
+          Reconnecting in {Math.max(0, Math.ceil((reconnect.at - now) / 1000))}s (attempt {reconnect.attempt}
+          {reconnect.maxAttempts > 0 && ` of ${reconnect.maxAttempts}`})
+          <button type="button" className="btn btn-small btn-secondary" onClick={onRetryNow}>
+            Retry now
+          </button>
+        </div>
+      )}
+      {diagnosis ? (
+        <div className="status-error" title={diagnosis.detail}>
+          <strong>{diagnosis.summary}.</strong> {diagnosis.advice}
+        </div>
+      ) : lastError && (
         <div className="status-error" title={lastError}>
-          Error: {lastError.length > 50 ? lastError.slice(0, 50) + '...' : lastError}
+          Error: {lastError}
         </div>
       )}
     </footer>
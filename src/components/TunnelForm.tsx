@@ -1,42 +1,120 @@
 import { useState } from 'react'
+import PluginFields, { PLUGIN_LABELS, createPlugin, pluginTypesFor } from './PluginFields'
 
-interface Tunnel {
-  id: string
-  name: string
-  type: 'tcp'
-  localIP: string
-  localPort: number
-  remotePort: number
-  enabled: boolean
+const isVhostType = (type: Tunnel['type']) => type === 'http' || type === 'https'
+const isSecretType = (type: Tunnel['type']) => type === 'stcp' || type === 'sudp' || type === 'xtcp'
+
+const generateSecretKey = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(24))
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('')
+}
+
+// Comma- or whitespace-separated list input, e.g. "app.example.com, www.example.com"
+const parseList = (value: string) => value.split(/[\s,]+/).map(v => v.trim()).filter(Boolean)
+
+// One "Header-Name: value" pair per line
+const parseHeaders = (text: string) => {
+  const headers: Record<string, string> = {}
+  for (const line of text.split('\n')) {
+    const separator = line.indexOf(':')
+    if (separator > 0) {
+      headers[line.slice(0, separator).trim()] = line.slice(separator + 1).trim()
+    }
+  }
+  return headers
+}
+
+const formatHeaders = (headers?: Record<string, string>) =>
+  Object.entries(headers || {}).map(([header, value]) => `${header}: ${value}`).join('\n')
+
+// "512KB" -> { amount: 512, unit: 'KB' }
+const parseBandwidth = (limit?: string) => {
+  const match = limit?.match(/^(\d+)(KB|MB)$/)
+  return match
+    ? { amount: parseInt(match[1]), unit: match[2] as 'KB' | 'MB' }
+    : { amount: 0, unit: 'MB' as const }
 }
 
 interface TunnelFormProps {
   tunnel?: Tunnel
-  existingPorts: number[]
+  existingTunnels: Tunnel[]
   portRange: { min: number; max: number }
   onSave: (tunnel: Omit<Tunnel, 'id'>) => void
   onCancel: () => void
 }
 
-function TunnelForm({ tunnel, existingPorts, portRange, onSave, onCancel }: TunnelFormProps) {
+function TunnelForm({ tunnel, existingTunnels, portRange, onSave, onCancel }: TunnelFormProps) {
   const [name, setName] = useState(tunnel?.name || '')
+  const [type, setType] = useState<Tunnel['type']>(tunnel?.type || 'tcp')
   const [localIP, setLocalIP] = useState(tunnel?.localIP || '127.0.0.1')
   const [localPort, setLocalPort] = useState(tunnel?.localPort || 3000)
   const [remotePort, setRemotePort] = useState(tunnel?.remotePort || 0)
+  const [customDomains, setCustomDomains] = useState((tunnel?.customDomains || []).join(', '))
+  const [subdomain, setSubdomain] = useState(tunnel?.subdomain || '')
+  const [locations, setLocations] = useState((tunnel?.locations || []).join(', '))
+  const [hostHeaderRewrite, setHostHeaderRewrite] = useState(tunnel?.hostHeaderRewrite || '')
+  const [httpUser, setHttpUser] = useState(tunnel?.httpUser || '')
+  const [httpPassword, setHttpPassword] = useState(tunnel?.httpPassword || '')
+  const [requestHeaders, setRequestHeaders] = useState(formatHeaders(tunnel?.requestHeaders))
+  const [secretKey, setSecretKey] = useState(tunnel?.secretKey || '')
+  const [showSecretKey, setShowSecretKey] = useState(false)
+  const [allowUsers, setAllowUsers] = useState((tunnel?.allowUsers || []).join(', '))
+  const [useEncryption, setUseEncryption] = useState(tunnel?.transport?.useEncryption || false)
+  const [useCompression, setUseCompression] = useState(tunnel?.transport?.useCompression || false)
+  const [bandwidthAmount, setBandwidthAmount] = useState(parseBandwidth(tunnel?.transport?.bandwidthLimit).amount)
+  const [bandwidthUnit, setBandwidthUnit] = useState(parseBandwidth(tunnel?.transport?.bandwidthLimit).unit)
+  const [bandwidthLimitMode, setBandwidthLimitMode] = useState(tunnel?.transport?.bandwidthLimitMode || 'client')
+  const [proxyProtocolVersion, setProxyProtocolVersion] = useState<'' | 'v1' | 'v2'>(tunnel?.transport?.proxyProtocolVersion || '')
+  const [plugin, setPlugin] = useState<TunnelPlugin | null>(tunnel?.plugin || null)
+  const [healthCheckType, setHealthCheckType] = useState<'' | 'tcp' | 'http'>(tunnel?.healthCheck?.type || '')
+  const [healthCheckPath, setHealthCheckPath] = useState(tunnel?.healthCheck?.path || '/')
+  const [healthCheckInterval, setHealthCheckInterval] = useState(tunnel?.healthCheck?.intervalSeconds || 10)
+  const [healthCheckTimeout, setHealthCheckTimeout] = useState(tunnel?.healthCheck?.timeoutSeconds || 3)
+  const [healthCheckMaxFailed, setHealthCheckMaxFailed] = useState(tunnel?.healthCheck?.maxFailed || 3)
+  const [group, setGroup] = useState(tunnel?.loadBalancer?.group || '')
+  const [groupKey, setGroupKey] = useState(tunnel?.loadBalancer?.groupKey || '')
+  const [waitForLocalService, setWaitForLocalService] = useState(tunnel?.waitForLocalService || false)
+  const [verifyOnStart, setVerifyOnStart] = useState(tunnel?.verifyOnStart || false)
   const [error, setError] = useState<string | null>(null)
 
   const isEdit = !!tunnel
+  const isVhost = isVhostType(type)
+  const isSecret = isSecretType(type)
+  // The GUI can only probe TCP services it knows the address of
+  const canProbeLocal = type !== 'udp' && type !== 'sudp'
+    && (!plugin || plugin.type === 'unix_domain_socket' || plugin.type === 'https2http' || plugin.type === 'https2https')
+  const needsRemotePort = !isVhost && !isSecret
+  const supportsProxyProtocol = type !== 'udp' && type !== 'sudp'
+  const availablePlugins = pluginTypesFor(type)
+  const supportsLoadBalancing = type === 'tcp' || type === 'http'
+  const activeGroup = supportsLoadBalancing ? group.trim() : ''
+  const groupMembers = activeGroup
+    ? existingTunnels.filter(t => t.type === type && t.loadBalancer?.group === activeGroup)
+    : []
+  const defaultName = `${type}-${plugin ? plugin.type : localPort}`
+
+  // TCP and UDP tunnels may share a remote port number, and so may load-balancer group members
+  const portsInUse = (forType: Tunnel['type']) =>
+    existingTunnels
+      .filter(t => t.type === forType && !(activeGroup && t.loadBalancer?.group === activeGroup))
+      .map(t => t.remotePort)
 
   // Generate available ports (excluding already used ones)
-  const availablePorts = []
-  for (let p = portRange.min; p <= portRange.max; p++) {
-    if (!existingPorts.includes(p) || p === tunnel?.remotePort) {
-      availablePorts.push(p)
+  const getAvailablePorts = (usedPorts: number[]) => {
+    const ports = []
+    for (let p = portRange.min; p <= portRange.max; p++) {
+      if (!usedPorts.includes(p)) {
+        ports.push(p)
+      }
     }
+    return ports
   }
 
-  // Set default remote port to first available if not editing
-  if (!isEdit && remotePort === 0 && availablePorts.length > 0) {
+  const existingPorts = portsInUse(type)
+  const availablePorts = getAvailablePorts(existingPorts)
+
+  // Set default remote port to first available (new tunnels, or switching to a port-based type)
+  if (needsRemotePort && remotePort === 0 && availablePorts.length > 0) {
     setRemotePort(availablePorts[0])
   }
 
@@ -44,32 +122,135 @@ function TunnelForm({ tunnel, existingPorts, portRange, onSave, onCancel }: Tunn
     e.preventDefault()
     setError(null)
 
-    // Validate remote port is not duplicate
-    if (existingPorts.includes(remotePort) && remotePort !== tunnel?.remotePort) {
-      setError(`Remote port ${remotePort} is already in use by another tunnel`)
+    // frps rejects names with anything else
+    if (name && !/^[A-Za-z0-9_.-]+$/.test(name)) {
+      setError('Tunnel name may only contain letters, digits, "-", "_" and "."')
       return
     }
 
     // Validate port ranges
-    if (localPort < 1 || localPort > 65535) {
+    if (!plugin && (localPort < 1 || localPort > 65535)) {
       setError('Local port must be between 1 and 65535')
       return
     }
+
+    if (plugin?.type === 'static_file' && !plugin.localPath) {
+      setError('Choose a directory to serve')
+      return
+    }
+    if ((plugin?.type === 'https2http' || plugin?.type === 'https2https') && !plugin.crtPath !== !plugin.keyPath) {
+      setError('Certificate and key files must be set together')
+      return
+    }
+    if (healthCheckType === 'http' && !healthCheckPath.startsWith('/')) {
+      setError('Health check path must start with /')
+      return
+    }
+
+    // Group members on frps all listen on the same port with the same key
+    const groupLeader = groupMembers[0]
+    if (groupLeader && groupLeader.loadBalancer?.groupKey !== groupKey) {
+      setError(`Group key must match the other tunnels in group "${activeGroup}"`)
+      return
+    }
+    if (groupLeader && type === 'tcp' && groupLeader.remotePort !== remotePort) {
+      setError(`Tunnels in group "${activeGroup}" share remote port ${groupLeader.remotePort}`)
+      return
+    }
+
+    const base = {
+      name: name || defaultName,
+      type,
+      localIP,
+      localPort,
+      enabled: tunnel?.enabled !== false,
+      transport: {
+        useEncryption,
+        useCompression,
+        bandwidthLimit: bandwidthAmount > 0 ? `${bandwidthAmount}${bandwidthUnit}` : undefined,
+        bandwidthLimitMode: bandwidthAmount > 0 ? bandwidthLimitMode : undefined,
+        proxyProtocolVersion: supportsProxyProtocol && proxyProtocolVersion ? proxyProtocolVersion : undefined
+      },
+      plugin: plugin || undefined,
+      healthCheck: healthCheckType && !plugin
+        ? {
+            type: healthCheckType,
+            path: healthCheckType === 'http' ? healthCheckPath : undefined,
+            intervalSeconds: healthCheckInterval,
+            timeoutSeconds: healthCheckTimeout,
+            maxFailed: healthCheckMaxFailed
+          }
+        : undefined,
+      loadBalancer: activeGroup ? { group: activeGroup, groupKey } : undefined,
+      waitForLocalService: canProbeLocal && waitForLocalService ? true : undefined,
+      verifyOnStart: type === 'tcp' && verifyOnStart ? true : undefined
+    }
+
+    if (isVhost) {
+      const domains = parseList(customDomains)
+      if (domains.length === 0 && !subdomain.trim()) {
+        setError('Enter a custom domain or a subdomain')
+        return
+      }
+
+      const isHttp = type === 'http'
+      onSave({
+        ...base,
+        remotePort: 0,
+        customDomains: domains,
+        subdomain: subdomain.trim() || undefined,
+        locations: isHttp ? parseList(locations) : undefined,
+        hostHeaderRewrite: isHttp ? hostHeaderRewrite.trim() || undefined : undefined,
+        httpUser: isHttp ? httpUser || undefined : undefined,
+        httpPassword: isHttp && httpUser ? httpPassword : undefined,
+        requestHeaders: isHttp ? parseHeaders(requestHeaders) : undefined
+      })
+      return
+    }
+
+    if (isSecret) {
+      if (!secretKey) {
+        setError('A secret key is required so visitors can connect')
+        return
+      }
+      onSave({
+        ...base,
+        remotePort: 0,
+        secretKey,
+        allowUsers: parseList(allowUsers)
+      })
+      return
+    }
+
+    // Validate remote port is not duplicate
+    if (existingPorts.includes(remotePort)) {
+      setError(`Remote port ${remotePort}/${type} is already in use by another tunnel`)
+      return
+    }
     if (remotePort < 1 || remotePort > 65535) {
       setError('Remote port must be between 1 and 65535')
       return
     }
 
     onSave({
-      name: name || `tcp-${localPort}`,
-      type: 'tcp',
-      localIP,
-      localPort,
-      remotePort,
-      enabled: tunnel?.enabled !== false
+      ...base,
+      remotePort
     })
   }
 
+  const handleTypeChange = (newType: Tunnel['type']) => {
+    setType(newType)
+    // Drop a plugin the new type can't run
+    if (plugin && !pluginTypesFor(newType).includes(plugin.type)) {
+      setPlugin(null)
+    }
+    // Move off the selected remote port if the new type already uses it
+    const usedPorts = portsInUse(newType)
+    if (usedPorts.includes(remotePort)) {
+      setRemotePort(getAvailablePorts(usedPorts)[0] || 0)
+    }
+  }
+
   return (
     <div className="tunnel-form">
       <h2>{isEdit ? 'Edit Tunnel' : 'Add Tunnel'}</h2>
@@ -83,62 +264,461 @@ function TunnelForm({ tunnel, existingPorts, portRange, onSave, onCancel }: Tunn
             type="text"
             value={name}
             onChange={(e) => setName(e.target.value)}
-            placeholder={`tcp-${localPort}`}
+            placeholder={defaultName}
           />
           <small>Leave empty to auto-generate based on port</small>
         </div>
 
         <div className="form-group">
-          <label htmlFor="localIP">Local IP</label>
-          <input
-            id="localIP"
-            type="text"
-            value={localIP}
-            onChange={(e) => setLocalIP(e.target.value)}
-            placeholder="127.0.0.1"
-            required
-          />
+          <label htmlFor="type">Type</label>
+          <select
+            id="type"
+            value={type}
+            onChange={(e) => handleTypeChange(e.target.value as Tunnel['type'])}
+          >
+            <option value="tcp">TCP</option>
+            <option value="udp">UDP</option>
+            <option value="http">HTTP</option>
+            <option value="https">HTTPS</option>
+            <option value="stcp">STCP (secret TCP)</option>
+            <option value="sudp">SUDP (secret UDP)</option>
+            <option value="xtcp">XTCP (peer-to-peer)</option>
+          </select>
+          <small>
+            {isVhost
+              ? 'Routed by domain through the server\'s shared vhost port'
+              : isSecret
+                ? 'No public port is opened. Only visitors with the secret key can connect'
+                : 'Use UDP for game servers, DNS resolvers or WireGuard endpoints'}
+          </small>
         </div>
 
-        <div className="form-row">
+        {availablePlugins.length > 0 && (
+          <div className="form-group">
+            <label htmlFor="backend">Backend</label>
+            <select
+              id="backend"
+              value={plugin?.type || ''}
+              onChange={(e) => setPlugin(e.target.value ? createPlugin(e.target.value as TunnelPluginType) : null)}
+            >
+              <option value="">Local service</option>
+              {availablePlugins.map(p => (
+                <option key={p} value={p}>{PLUGIN_LABELS[p]}</option>
+              ))}
+            </select>
+            <small>Forward to a local service, or let frpc serve the tunnel with a plugin</small>
+          </div>
+        )}
+
+        {plugin && <PluginFields plugin={plugin} onChange={setPlugin} />}
+
+        {!plugin && (
           <div className="form-group">
-            <label htmlFor="localPort">Local Port</label>
+            <label htmlFor="localIP">Local IP</label>
             <input
-              id="localPort"
-              type="number"
-              value={localPort}
-              onChange={(e) => setLocalPort(parseInt(e.target.value) || 0)}
-              min={1}
-              max={65535}
+              id="localIP"
+              type="text"
+              value={localIP}
+              onChange={(e) => setLocalIP(e.target.value)}
+              placeholder="127.0.0.1"
               required
             />
           </div>
+        )}
+
+        <div className="form-row">
+          {!plugin && (
+            <div className="form-group">
+              <label htmlFor="localPort">Local Port</label>
+              <input
+                id="localPort"
+                type="number"
+                value={localPort}
+                onChange={(e) => setLocalPort(parseInt(e.target.value) || 0)}
+                min={1}
+                max={65535}
+                required
+              />
+            </div>
+          )}
+
+          {needsRemotePort && (
+            <div className="form-group">
+              <label htmlFor="remotePort">Remote Port</label>
+              <select
+                id="remotePort"
+                value={remotePort}
+                onChange={(e) => setRemotePort(parseInt(e.target.value))}
+                required
+              >
+                {availablePorts.length === 0 ? (
+                  <option value="">No ports available</option>
+                ) : (
+                  availablePorts.map(port => (
+                    <option key={port} value={port}>{port}</option>
+                  ))
+                )}
+              </select>
+              <small>{availablePorts.length} ports available ({portRange.min}-{portRange.max})</small>
+            </div>
+          )}
+        </div>
+
+        {isSecret && (
+          <>
+            <div className="form-group">
+              <label htmlFor="secretKey">Secret Key</label>
+              <div className="input-with-button">
+                <div className="input-with-icon">
+                  <input
+                    id="secretKey"
+                    type={showSecretKey ? 'text' : 'password'}
+                    value={secretKey}
+                    onChange={(e) => setSecretKey(e.target.value)}
+                    placeholder="Shared with visitors"
+                  />
+                  <button
+                    type="button"
+                    className="btn-icon-inline"
+                    onClick={() => setShowSecretKey(!showSecretKey)}
+                    title={showSecretKey ? 'Hide key' : 'Show key'}
+                  >
+                    {showSecretKey ? '🙈' : '👁'}
+                  </button>
+                </div>
+                <button
+                  type="button"
+                  className="btn btn-small btn-secondary"
+                  onClick={() => { setSecretKey(generateSecretKey()); setShowSecretKey(true) }}
+                >
+                  Generate
+                </button>
+              </div>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="allowUsers">Allowed Users</label>
+              <input
+                id="allowUsers"
+                type="text"
+                value={allowUsers}
+                onChange={(e) => setAllowUsers(e.target.value)}
+                placeholder="alice, bob (or * for everyone)"
+              />
+              <small>frpc users allowed to visit. Leave empty to allow only your own user</small>
+            </div>
+          </>
+        )}
+
+        {isVhost && (
+          <>
+            <div className="form-group">
+              <label htmlFor="customDomains">Custom Domains</label>
+              <input
+                id="customDomains"
+                type="text"
+                value={customDomains}
+                onChange={(e) => setCustomDomains(e.target.value)}
+                placeholder="app.example.com, www.example.com"
+              />
+              <small>Comma-separated. DNS must point these at the FRP server</small>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="subdomain">Subdomain</label>
+              <input
+                id="subdomain"
+                type="text"
+                value={subdomain}
+                onChange={(e) => setSubdomain(e.target.value)}
+                placeholder="myapp"
+              />
+              <small>Requires subDomainHost on the server</small>
+            </div>
+          </>
+        )}
+
+        {type === 'http' && (
+          <>
+            <div className="form-group">
+              <label htmlFor="locations">Locations</label>
+              <input
+                id="locations"
+                type="text"
+                value={locations}
+                onChange={(e) => setLocations(e.target.value)}
+                placeholder="/, /api"
+              />
+              <small>Only route these URL path prefixes to this tunnel</small>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="hostHeaderRewrite">Host Header Rewrite</label>
+              <input
+                id="hostHeaderRewrite"
+                type="text"
+                value={hostHeaderRewrite}
+                onChange={(e) => setHostHeaderRewrite(e.target.value)}
+                placeholder="localhost"
+              />
+            </div>
+
+            <div className="form-row">
+              <div className="form-group">
+                <label htmlFor="httpUser">Basic Auth User</label>
+                <input
+                  id="httpUser"
+                  type="text"
+                  value={httpUser}
+                  onChange={(e) => setHttpUser(e.target.value)}
+                />
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="httpPassword">Basic Auth Password</label>
+                <input
+                  id="httpPassword"
+                  type="password"
+                  value={httpPassword}
+                  onChange={(e) => setHttpPassword(e.target.value)}
+                  disabled={!httpUser}
+                />
+              </div>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="requestHeaders">Request Headers</label>
+              <textarea
+                id="requestHeaders"
+                value={requestHeaders}
+                onChange={(e) => setRequestHeaders(e.target.value)}
+                placeholder="X-From-Where: frp"
+                rows={3}
+              />
+              <small>One "Header: value" per line, set on requests sent to the local service</small>
+            </div>
+          </>
+        )}
+
+        <details className="form-advanced">
+          <summary>Advanced</summary>
 
           <div className="form-group">
-            <label htmlFor="remotePort">Remote Port</label>
-            <select
-              id="remotePort"
-              value={remotePort}
-              onChange={(e) => setRemotePort(parseInt(e.target.value))}
-              required
-            >
-              {availablePorts.length === 0 ? (
-                <option value="">No ports available</option>
-              ) : (
-                availablePorts.map(port => (
-                  <option key={port} value={port}>{port}</option>
-                ))
-              )}
-            </select>
-            <small>{availablePorts.length} ports available ({portRange.min}-{portRange.max})</small>
+            <label className="toggle-label">
+              <span>Encrypt traffic to the server</span>
+              <label className="toggle">
+                <input
+                  type="checkbox"
+                  checked={useEncryption}
+                  onChange={(e) => setUseEncryption(e.target.checked)}
+                />
+                <span className="toggle-slider"></span>
+              </label>
+            </label>
           </div>
-        </div>
+
+          <div className="form-group">
+            <label className="toggle-label">
+              <span>Compress traffic</span>
+              <label className="toggle">
+                <input
+                  type="checkbox"
+                  checked={useCompression}
+                  onChange={(e) => setUseCompression(e.target.checked)}
+                />
+                <span className="toggle-slider"></span>
+              </label>
+            </label>
+            <small>Helps on metered or slow links, costs some CPU</small>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="bandwidthAmount">Bandwidth Limit</label>
+            <div className="form-row">
+              <div className="input-with-button">
+                <input
+                  id="bandwidthAmount"
+                  type="number"
+                  value={bandwidthAmount}
+                  onChange={(e) => setBandwidthAmount(parseInt(e.target.value) || 0)}
+                  min={0}
+                />
+                <select
+                  value={bandwidthUnit}
+                  onChange={(e) => setBandwidthUnit(e.target.value as 'KB' | 'MB')}
+                >
+                  <option value="KB">KB/s</option>
+                  <option value="MB">MB/s</option>
+                </select>
+              </div>
+              <select
+                value={bandwidthLimitMode}
+                onChange={(e) => setBandwidthLimitMode(e.target.value as 'client' | 'server')}
+                disabled={bandwidthAmount === 0}
+              >
+                <option value="client">Enforced by client</option>
+                <option value="server">Enforced by server</option>
+              </select>
+            </div>
+            <small>0 for unlimited</small>
+          </div>
+
+          {supportsProxyProtocol && (
+            <div className="form-group">
+              <label htmlFor="proxyProtocolVersion">PROXY Protocol</label>
+              <select
+                id="proxyProtocolVersion"
+                value={proxyProtocolVersion}
+                onChange={(e) => setProxyProtocolVersion(e.target.value as '' | 'v1' | 'v2')}
+              >
+                <option value="">Off</option>
+                <option value="v1">v1</option>
+                <option value="v2">v2</option>
+              </select>
+              <small>Pass the real client IP to the local service. It must be configured to accept PROXY headers</small>
+            </div>
+          )}
+
+          {!plugin && (
+            <>
+              <div className="form-group">
+                <label htmlFor="healthCheckType">Health Check</label>
+                <select
+                  id="healthCheckType"
+                  value={healthCheckType}
+                  onChange={(e) => setHealthCheckType(e.target.value as '' | 'tcp' | 'http')}
+                >
+                  <option value="">Off</option>
+                  <option value="tcp">TCP connect</option>
+                  <option value="http">HTTP request</option>
+                </select>
+                <small>frps stops routing to this tunnel while the local service is unhealthy</small>
+              </div>
+
+              {healthCheckType === 'http' && (
+                <div className="form-group">
+                  <label htmlFor="healthCheckPath">Health Check Path</label>
+                  <input
+                    id="healthCheckPath"
+                    type="text"
+                    value={healthCheckPath}
+                    onChange={(e) => setHealthCheckPath(e.target.value)}
+                    placeholder="/health"
+                  />
+                  <small>Any 2xx response counts as healthy</small>
+                </div>
+              )}
+
+              {healthCheckType && (
+                <div className="form-row form-row-3">
+                  <div className="form-group">
+                    <label htmlFor="healthCheckInterval">Interval (s)</label>
+                    <input
+                      id="healthCheckInterval"
+                      type="number"
+                      value={healthCheckInterval}
+                      onChange={(e) => setHealthCheckInterval(parseInt(e.target.value) || 10)}
+                      min={1}
+                    />
+                  </div>
+                  <div className="form-group">
+                    <label htmlFor="healthCheckTimeout">Timeout (s)</label>
+                    <input
+                      id="healthCheckTimeout"
+                      type="number"
+                      value={healthCheckTimeout}
+                      onChange={(e) => setHealthCheckTimeout(parseInt(e.target.value) || 3)}
+                      min={1}
+                    />
+                  </div>
+                  <div className="form-group">
+                    <label htmlFor="healthCheckMaxFailed">Max Failed</label>
+                    <input
+                      id="healthCheckMaxFailed"
+                      type="number"
+                      value={healthCheckMaxFailed}
+                      onChange={(e) => setHealthCheckMaxFailed(parseInt(e.target.value) || 3)}
+                      min={1}
+                    />
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+
+          {canProbeLocal && (
+            <div className="form-group">
+              <label className="toggle-label">
+                <span>Start once the local service is up</span>
+                <label className="toggle">
+                  <input
+                    type="checkbox"
+                    checked={waitForLocalService}
+                    onChange={(e) => setWaitForLocalService(e.target.checked)}
+                  />
+                  <span className="toggle-slider"></span>
+                </label>
+              </label>
+              <small>Keeps the tunnel out of frpc until its local address accepts connections</small>
+            </div>
+          )}
+
+          {type === 'tcp' && (
+            <div className="form-group">
+              <label className="toggle-label">
+                <span>Verify once started</span>
+                <label className="toggle">
+                  <input
+                    type="checkbox"
+                    checked={verifyOnStart}
+                    onChange={(e) => setVerifyOnStart(e.target.checked)}
+                  />
+                  <span className="toggle-slider"></span>
+                </label>
+              </label>
+              <small>Connects to the remote port through the server and notifies you if the local service can't be reached that way</small>
+            </div>
+          )}
+
+          {supportsLoadBalancing && (
+            <div className="form-group">
+              <label>Load Balancing</label>
+              <div className="form-row">
+                <div className="form-group">
+                  <label htmlFor="group">Group</label>
+                  <input
+                    id="group"
+                    type="text"
+                    value={group}
+                    onChange={(e) => setGroup(e.target.value)}
+                    placeholder="web"
+                  />
+                </div>
+                <div className="form-group">
+                  <label htmlFor="groupKey">Group Key</label>
+                  <input
+                    id="groupKey"
+                    type="password"
+                    value={groupKey}
+                    onChange={(e) => setGroupKey(e.target.value)}
+                    disabled={!group.trim()}
+                  />
+                </div>
+              </div>
+              <small>
+                {groupMembers.length > 0
+                  ? `Joins ${groupMembers.map(t => t.name).join(', ')}${type === 'tcp' ? ` on remote port ${groupMembers[0].remotePort}` : ''}`
+                  : 'frps balances connections across tunnels (on any machine) in the same group'}
+              </small>
+            </div>
+          )}
+        </details>
 
         <div className="form-actions">
           <button type="button" className="btn btn-secondary" onClick={onCancel}>
             Done
           </button>
-          <button type="submit" className="btn btn-primary" disabled={availablePorts.length === 0}>
+          <button type="submit" className="btn btn-primary" disabled={needsRemotePort && availablePorts.length === 0}>
             {isEdit ? 'Save' : 'Add'}
           </button>
         </div>
@@ -1,24 +1,88 @@
 import { useState } from 'react'
 
-interface Tunnel {
-  id: string
-  name: string
-  type: 'tcp'
-  localIP: string
-  localPort: number
-  remotePort: number
-  enabled: boolean
+interface VhostSettings {
+  subDomainHost: string
+  httpPort: number
+  httpsPort: number
 }
 
 interface TunnelListProps {
   tunnels: Tunnel[]
+  isRunning: boolean
+  proxyStatuses: ProxyStatus[]
+  reloadResults: Record<string, { success: boolean; error?: string }>
+  // Latest warning or error frpc logged per proxy name
+  logErrors: Record<string, string>
+  // Problems `frpc verify` found on the last start
+  configIssues: ConfigIssue[]
+  // Whether each tunnel's local service accepts connections, by tunnel id
+  localServices: Record<string, LocalServiceState>
+  // Last end-to-end check per tunnel id, null while one runs
+  reachability: Record<string, ReachabilityResult | null>
   serverAddr: string
+  vhost: VhostSettings
   onEdit: (tunnel: Tunnel) => void
   onDelete: (id: string) => void
   onToggle: (id: string, enabled: boolean) => void
+  onCheckReachability: (id: string) => void
 }
 
-function TunnelList({ tunnels, serverAddr, onEdit, onDelete, onToggle }: TunnelListProps) {
+// Public address of a tunnel: a URL for http/https tunnels, host:port otherwise.
+// Secret tunnels have no public address.
+function getRemoteAddress(tunnel: Tunnel, serverAddr: string, vhost: VhostSettings): string | null {
+  if (tunnel.type === 'stcp' || tunnel.type === 'sudp' || tunnel.type === 'xtcp') {
+    return null
+  }
+  if (tunnel.type !== 'http' && tunnel.type !== 'https') {
+    return `${serverAddr}:${tunnel.remotePort}`
+  }
+
+  const host = tunnel.customDomains?.[0]
+    || (tunnel.subdomain && vhost.subDomainHost ? `${tunnel.subdomain}.${vhost.subDomainHost}` : tunnel.subdomain || serverAddr)
+  const port = tunnel.type === 'http' ? vhost.httpPort : vhost.httpsPort
+  const defaultPort = tunnel.type === 'http' ? 80 : 443
+  return `${tunnel.type}://${host}${port && port !== defaultPort ? `:${port}` : ''}`
+}
+
+// What the tunnel forwards to: a local address, or the plugin serving it
+function getLocalDescription(tunnel: Tunnel): string {
+  const plugin = tunnel.plugin
+  switch (plugin?.type) {
+    case undefined:
+      return `${tunnel.localIP}:${tunnel.localPort}`
+    case 'static_file':
+      return `Files: ${plugin.localPath}`
+    case 'socks5':
+      return 'SOCKS5 proxy'
+    case 'http_proxy':
+      return 'HTTP proxy'
+    case 'unix_domain_socket':
+      return `unix:${plugin.unixPath}`
+    case 'https2http':
+    case 'https2https':
+      return `${plugin.type === 'https2http' ? 'http' : 'https'}://${plugin.localAddr}`
+  }
+}
+
+const LOCAL_SERVICE_LABELS: Record<LocalServiceState, string> = {
+  up: 'Local service is up',
+  down: 'Local service is not accepting connections',
+  waiting: 'Waiting for the local service before starting this tunnel'
+}
+
+const STAGE_LABELS: Record<ReachabilityStage, string> = {
+  server: 'frps',
+  remote: 'Remote port',
+  local: 'Local side'
+}
+
+const STATE_LABELS: Record<ProxyState, string> = {
+  running: 'Running',
+  error: 'Error',
+  pending: 'Starting...'
+}
+
+function TunnelList({ tunnels, isRunning, proxyStatuses, reloadResults, logErrors, configIssues, localServices, reachability, serverAddr, vhost, onEdit, onDelete, onToggle, onCheckReachability }: TunnelListProps) {
   const [activePopup, setActivePopup] = useState<{ id: string; x: number; y: number } | null>(null)
 
   const copyToClipboard = (text: string) => {
@@ -27,7 +91,7 @@ function TunnelList({ tunnels, serverAddr, onEdit, onDelete, onToggle }: TunnelL
   }
 
   const openInBrowser = (addr: string) => {
-    window.electronAPI.openExternal(`http://${addr}`)
+    window.electronAPI.openExternal(/^https?:\/\//.test(addr) ? addr : `http://${addr}`)
     setActivePopup(null)
   }
 
@@ -57,13 +121,23 @@ function TunnelList({ tunnels, serverAddr, onEdit, onDelete, onToggle }: TunnelL
             <th>Name</th>
             <th>Type</th>
             <th>Local</th>
-            <th>Remote Port</th>
+            <th>Remote</th>
             <th>Actions</th>
           </tr>
         </thead>
         <tbody>
           {tunnels.map((tunnel) => {
-            const remoteAddr = `${serverAddr}:${tunnel.remotePort}`
+            const remoteAddr = getRemoteAddress(tunnel, serverAddr, vhost)
+            const localState = isRunning && tunnel.enabled !== false ? localServices[tunnel.id] : undefined
+            // frpc may not have reported a freshly started proxy yet, and has no proxy for a held tunnel
+            const status = isRunning && tunnel.enabled !== false && localState !== 'waiting'
+              ? proxyStatuses.find(p => p.name === tunnel.name) ?? { name: tunnel.name, state: 'pending' as const }
+              : null
+            const reload = reloadResults[tunnel.id]
+            const error = status && (status.error || logErrors[tunnel.name])
+            const issues = configIssues.filter(issue => issue.tunnel === tunnel.name)
+            const canCheck = tunnel.type === 'tcp' && status?.state === 'running'
+            const check = reachability[tunnel.id]
             return (
             <tr key={tunnel.id} className={tunnel.enabled === false ? 'disabled' : ''}>
               <td>
@@ -76,30 +150,81 @@ function TunnelList({ tunnels, serverAddr, onEdit, onDelete, onToggle }: TunnelL
                   <span className="toggle-slider"></span>
                 </label>
               </td>
-              <td>{tunnel.name}</td>
-              <td>{tunnel.type.toUpperCase()}</td>
-              <td>{tunnel.localIP}:{tunnel.localPort}</td>
-              <td>{tunnel.remotePort}</td>
+              <td>
+                {status && (
+                  <span
+                    className={`status-dot tunnel-status ${status.state}`}
+                    title={status.error || STATE_LABELS[status.state]}
+                  />
+                )}
+                {tunnel.name}
+                {tunnel.loadBalancer?.group && (
+                  <span className="group-tag" title="Load balancer group">⚖ {tunnel.loadBalancer.group}</span>
+                )}
+                {error && <div className="tunnel-error">{error}</div>}
+                {issues.map((issue, index) => (
+                  <div key={index} className="tunnel-error">
+                    {issue.field && `${issue.field}: `}{issue.message}
+                  </div>
+                ))}
+                {check === null && <div className="tunnel-notice">Checking reachability...</div>}
+                {check && (check.success
+                  ? <div className="tunnel-notice">✓ {check.detail}</div>
+                  : <div className="tunnel-error">{check.stage && `${STAGE_LABELS[check.stage]}: `}{check.error}</div>)}
+                {reload && (reload.success
+                  ? <div className="tunnel-notice">Reloaded</div>
+                  : <div className="tunnel-error">Reload failed: {reload.error}</div>)}
+              </td>
+              <td>
+                <span className={`type-badge type-${tunnel.type}`}>{tunnel.type.toUpperCase()}</span>
+              </td>
+              <td>
+                {localState && (
+                  <span className={`local-state ${localState}`} title={LOCAL_SERVICE_LABELS[localState]}>
+                    {localState === 'waiting' ? '⏳' : '●'}
+                  </span>
+                )}
+                {getLocalDescription(tunnel)}
+              </td>
+              <td>
+                {remoteAddr === null
+                  ? <span className="muted">Visitors only</span>
+                  : tunnel.type === 'http' || tunnel.type === 'https' ? remoteAddr : tunnel.remotePort}
+              </td>
               <td className="actions">
-                <div className="link-popup-container">
+                {remoteAddr !== null && (
+                  <div className="link-popup-container">
+                    <button
+                      className="btn-link"
+                      onClick={(e) => togglePopup(tunnel.id, e)}
+                      title={remoteAddr}
+                    >
+                      ↗
+                    </button>
+                    {activePopup?.id === tunnel.id && (
+                      <div
+                        className="link-popup"
+                        style={{ left: activePopup.x, top: activePopup.y }}
+                      >
+                        <div className="link-popup-addr">{remoteAddr}</div>
+                        {tunnel.type !== 'udp' && (
+                          <button onClick={() => openInBrowser(remoteAddr)}>Open</button>
+                        )}
+                        <button onClick={() => copyToClipboard(remoteAddr)}>Copy</button>
+                      </div>
+                    )}
+                  </div>
+                )}
+                {canCheck && (
                   <button
-                    className="btn-link"
-                    onClick={(e) => togglePopup(tunnel.id, e)}
-                    title={remoteAddr}
+                    className="btn btn-small"
+                    onClick={() => onCheckReachability(tunnel.id)}
+                    disabled={check === null}
+                    title="Connect through the server and check the reply comes from the local service"
                   >
-                    ↗
+                    Verify
                   </button>
-                  {activePopup?.id === tunnel.id && (
-                    <div
-                      className="link-popup"
-                      style={{ left: activePopup.x, top: activePopup.y }}
-                    >
-                      <div className="link-popup-addr">{remoteAddr}</div>
-                      <button onClick={() => openInBrowser(remoteAddr)}>Open</button>
-                      <button onClick={() => copyToClipboard(remoteAddr)}>Copy</button>
-                    </div>
-                  )}
-                </div>
+                )}
                 <button
                   className="btn btn-small"
                   onClick={() => onEdit(tunnel)}
@@ -0,0 +1,224 @@
+import { useState } from 'react'
+
+interface VisitorFormProps {
+  visitor?: Visitor
+  existingVisitors: Visitor[]
+  onSave: (visitor: Omit<Visitor, 'id'>) => void
+  onCancel: () => void
+}
+
+function VisitorForm({ visitor, existingVisitors, onSave, onCancel }: VisitorFormProps) {
+  const [name, setName] = useState(visitor?.name || '')
+  const [type, setType] = useState<Visitor['type']>(visitor?.type || 'stcp')
+  const [serverName, setServerName] = useState(visitor?.serverName || '')
+  const [serverUser, setServerUser] = useState(visitor?.serverUser || '')
+  const [secretKey, setSecretKey] = useState(visitor?.secretKey || '')
+  const [showSecretKey, setShowSecretKey] = useState(false)
+  const [bindAddr, setBindAddr] = useState(visitor?.bindAddr || '127.0.0.1')
+  const [bindPort, setBindPort] = useState(visitor?.bindPort || 9000)
+  const [fallbackTo, setFallbackTo] = useState(visitor?.fallbackTo || '')
+  const [fallbackTimeoutMs, setFallbackTimeoutMs] = useState(visitor?.fallbackTimeoutMs || 1000)
+  const [error, setError] = useState<string | null>(null)
+
+  const isEdit = !!visitor
+
+  // xtcp visitors can fall back to an stcp visitor for the same service
+  const fallbackCandidates = existingVisitors.filter(v => v.type === 'stcp')
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    if (!serverName) {
+      setError('Server name is required')
+      return
+    }
+    // frps rejects names with anything else
+    if (![name, serverName].every(n => !n || /^[A-Za-z0-9_.-]+$/.test(n))) {
+      setError('Names may only contain letters, digits, "-", "_" and "."')
+      return
+    }
+    if (!secretKey) {
+      setError('Secret key is required')
+      return
+    }
+    if (bindPort < 1 || bindPort > 65535) {
+      setError('Bind port must be between 1 and 65535')
+      return
+    }
+
+    // Another visitor listening on the same local address would fail to bind
+    const protocol = type === 'sudp' ? 'udp' : 'tcp'
+    const conflict = existingVisitors.find(v =>
+      v.bindAddr === bindAddr && v.bindPort === bindPort && (v.type === 'sudp' ? 'udp' : 'tcp') === protocol
+    )
+    if (conflict) {
+      setError(`${bindAddr}:${bindPort} is already used by visitor "${conflict.name}"`)
+      return
+    }
+
+    onSave({
+      name: name || `${serverName}-visitor`,
+      type,
+      serverName,
+      serverUser: serverUser || undefined,
+      secretKey,
+      bindAddr,
+      bindPort,
+      enabled: visitor?.enabled !== false,
+      fallbackTo: type === 'xtcp' && fallbackTo ? fallbackTo : undefined,
+      fallbackTimeoutMs: type === 'xtcp' && fallbackTo ? fallbackTimeoutMs : undefined
+    })
+  }
+
+  return (
+    <div className="tunnel-form">
+      <h2>{isEdit ? 'Edit Visitor' : 'Add Visitor'}</h2>
+      <form onSubmit={handleSubmit}>
+        {error && <div className="error-message">{error}</div>}
+
+        <div className="form-group">
+          <label htmlFor="name">Visitor Name</label>
+          <input
+            id="name"
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={`${serverName || 'service'}-visitor`}
+          />
+          <small>Leave empty to auto-generate from the server name</small>
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="type">Type</label>
+          <select
+            id="type"
+            value={type}
+            onChange={(e) => setType(e.target.value as Visitor['type'])}
+          >
+            <option value="stcp">STCP (secret TCP)</option>
+            <option value="sudp">SUDP (secret UDP)</option>
+            <option value="xtcp">XTCP (peer-to-peer)</option>
+          </select>
+          <small>Must match the type of the secret tunnel you connect to</small>
+        </div>
+
+        <div className="form-row">
+          <div className="form-group">
+            <label htmlFor="serverName">Server Name</label>
+            <input
+              id="serverName"
+              type="text"
+              value={serverName}
+              onChange={(e) => setServerName(e.target.value)}
+              placeholder="secret-ssh"
+              required
+            />
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="serverUser">Server User</label>
+            <input
+              id="serverUser"
+              type="text"
+              value={serverUser}
+              onChange={(e) => setServerUser(e.target.value)}
+              placeholder="Optional"
+            />
+          </div>
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="secretKey">Secret Key</label>
+          <div className="input-with-icon">
+            <input
+              id="secretKey"
+              type={showSecretKey ? 'text' : 'password'}
+              value={secretKey}
+              onChange={(e) => setSecretKey(e.target.value)}
+              placeholder="Same key as the secret tunnel"
+              required
+            />
+            <button
+              type="button"
+              className="btn-icon-inline"
+              onClick={() => setShowSecretKey(!showSecretKey)}
+              title={showSecretKey ? 'Hide key' : 'Show key'}
+            >
+              {showSecretKey ? '🙈' : '👁'}
+            </button>
+          </div>
+        </div>
+
+        <div className="form-row">
+          <div className="form-group">
+            <label htmlFor="bindAddr">Bind Address</label>
+            <input
+              id="bindAddr"
+              type="text"
+              value={bindAddr}
+              onChange={(e) => setBindAddr(e.target.value)}
+              placeholder="127.0.0.1"
+              required
+            />
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="bindPort">Bind Port</label>
+            <input
+              id="bindPort"
+              type="number"
+              value={bindPort}
+              onChange={(e) => setBindPort(parseInt(e.target.value) || 0)}
+              min={1}
+              max={65535}
+              required
+            />
+          </div>
+        </div>
+
+        {type === 'xtcp' && (
+          <div className="form-row">
+            <div className="form-group">
+              <label htmlFor="fallbackTo">Fallback Visitor</label>
+              <select
+                id="fallbackTo"
+                value={fallbackTo}
+                onChange={(e) => setFallbackTo(e.target.value)}
+              >
+                <option value="">None</option>
+                {fallbackCandidates.map(v => (
+                  <option key={v.id} value={v.name}>{v.name}</option>
+                ))}
+              </select>
+              <small>Used when hole punching fails</small>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="fallbackTimeoutMs">Fallback Timeout (ms)</label>
+              <input
+                id="fallbackTimeoutMs"
+                type="number"
+                value={fallbackTimeoutMs}
+                onChange={(e) => setFallbackTimeoutMs(parseInt(e.target.value) || 0)}
+                min={0}
+                disabled={!fallbackTo}
+              />
+            </div>
+          </div>
+        )}
+
+        <div className="form-actions">
+          <button type="button" className="btn btn-secondary" onClick={onCancel}>
+            Done
+          </button>
+          <button type="submit" className="btn btn-primary">
+            {isEdit ? 'Save' : 'Add'}
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
+
+export default VisitorForm
@@ -0,0 +1,72 @@
+interface VisitorListProps {
+  visitors: Visitor[]
+  onEdit: (visitor: Visitor) => void
+  onDelete: (id: string) => void
+  onToggle: (id: string, enabled: boolean) => void
+}
+
+function VisitorList({ visitors, onEdit, onDelete, onToggle }: VisitorListProps) {
+  if (visitors.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="tunnel-list">
+      <h2>Visitors</h2>
+      <table>
+        <thead>
+          <tr>
+            <th></th>
+            <th>Name</th>
+            <th>Type</th>
+            <th>Connects To</th>
+            <th>Local</th>
+            <th>Actions</th>
+          </tr>
+        </thead>
+        <tbody>
+          {visitors.map((visitor) => (
+            <tr key={visitor.id} className={visitor.enabled === false ? 'disabled' : ''}>
+              <td>
+                <label className="toggle">
+                  <input
+                    type="checkbox"
+                    checked={visitor.enabled !== false}
+                    onChange={(e) => onToggle(visitor.id, e.target.checked)}
+                  />
+                  <span className="toggle-slider"></span>
+                </label>
+              </td>
+              <td>{visitor.name}</td>
+              <td>
+                <span className={`type-badge type-${visitor.type}`}>{visitor.type.toUpperCase()}</span>
+              </td>
+              <td>{visitor.serverUser ? `${visitor.serverUser}.${visitor.serverName}` : visitor.serverName}</td>
+              <td>{visitor.bindAddr}:{visitor.bindPort}</td>
+              <td className="actions">
+                <button
+                  className="btn btn-small"
+                  onClick={() => onEdit(visitor)}
+                >
+                  Edit
+                </button>
+                <button
+                  className="btn btn-small btn-danger"
+                  onClick={() => {
+                    if (confirm(`Delete visitor "${visitor.name}"?`)) {
+                      onDelete(visitor.id)
+                    }
+                  }}
+                >
+                  Delete
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+export default VisitorList
@@ -1,47 +1,310 @@
+type TunnelType = 'tcp' | 'udp' | 'http' | 'https' | 'stcp' | 'sudp' | 'xtcp'
+
+interface TunnelTransport {
+  useEncryption?: boolean
+  useCompression?: boolean
+  bandwidthLimit?: string               // e.g. "1MB" or "512KB"
+  bandwidthLimitMode?: 'client' | 'server'
+  proxyProtocolVersion?: 'v1' | 'v2'
+}
+
 interface Tunnel {
   id: string
   name: string
-  type: 'tcp'
+  type: TunnelType
   localIP: string
   localPort: number
-  remotePort: number
+  remotePort: number        // Unused (0) for virtual-host and secret tunnels
   enabled: boolean
+  // Virtual-host routing (http/https)
+  customDomains?: string[]
+  subdomain?: string
+  // HTTP-only options
+  locations?: string[]
+  hostHeaderRewrite?: string
+  httpUser?: string
+  httpPassword?: string
+  requestHeaders?: Record<string, string>
+  // Secret tunnels (stcp/sudp/xtcp)
+  secretKey?: string
+  allowUsers?: string[]
+  transport?: TunnelTransport
+  plugin?: TunnelPlugin     // When set, localIP/localPort are ignored
+  healthCheck?: TunnelHealthCheck
+  loadBalancer?: TunnelLoadBalancer
+  waitForLocalService?: boolean   // Hold the tunnel back until the local service accepts connections
+  verifyOnStart?: boolean         // Check the tunnel end to end once frpc starts it
+}
+
+type TunnelPlugin =
+  | { type: 'static_file'; localPath: string; stripPrefix?: string; httpUser?: string; httpPassword?: string }
+  | { type: 'socks5'; username?: string; password?: string }
+  | { type: 'http_proxy'; httpUser?: string; httpPassword?: string }
+  | { type: 'unix_domain_socket'; unixPath: string }
+  | { type: 'https2http' | 'https2https'; localAddr: string; crtPath?: string; keyPath?: string; hostHeaderRewrite?: string }
+
+type TunnelPluginType = TunnelPlugin['type']
+
+interface TunnelHealthCheck {
+  type: 'tcp' | 'http'
+  path?: string             // http only
+  intervalSeconds?: number
+  timeoutSeconds?: number
+  maxFailed?: number
+}
+
+interface TunnelLoadBalancer {
+  group: string
+  groupKey: string
+}
+
+type VisitorType = 'stcp' | 'sudp' | 'xtcp'
+
+interface Visitor {
+  id: string
+  name: string
+  type: VisitorType
+  serverName: string
+  serverUser?: string
+  secretKey: string
+  bindAddr: string
+  bindPort: number
+  enabled: boolean
+  // xtcp only
+  fallbackTo?: string
+  fallbackTimeoutMs?: number
+}
+
+type TransportProtocol = 'tcp' | 'kcp' | 'quic' | 'websocket' | 'wss'
+
+interface ServerTLS {
+  enable: boolean
+  certFile?: string
+  keyFile?: string
+  trustedCaFile?: string
+  serverName?: string
+  disableCustomTLSFirstByte?: boolean   // Unset keeps frpc's default: true from 0.50, false before
 }
 
+type ProxyType = 'http' | 'socks5' | 'ntlm'
+
+interface OutboundProxy {
+  type: ProxyType
+  host: string
+  port: number
+  username?: string
+  password?: string
+}
+
+// Unset values keep frpc's defaults
+interface ServerTransport {
+  protocol: TransportProtocol
+  proxy?: OutboundProxy
+  tcpMux?: boolean
+  poolCount?: number
+  heartbeatInterval?: number
+  heartbeatTimeout?: number
+  tls: ServerTLS
+}
+
+type AuthMethod = 'token' | 'oidc'
+
+type AuthScope = 'HeartBeats' | 'NewWorkConns'
+
+interface OidcAuth {
+  clientId: string
+  clientSecret: string
+  audience?: string
+  scope?: string
+  tokenEndpointURL: string
+}
+
+interface ProfileSummary {
+  id: string
+  name: string
+  serverAddr: string
+}
+
+// Backoff for restarting frpc after it exits on its own
+interface ReconnectPolicy {
+  enabled: boolean
+  baseDelaySeconds: number
+  multiplier: number
+  maxDelaySeconds: number
+  jitter: number              // Fraction of the delay, 0 to 1
+  maxAttempts: number         // 0 retries forever
+  stableUptimeSeconds: number
+}
+
+// The active server profile's settings, flattened, plus app-wide settings
 interface AppConfig {
   serverAddr: string
   serverPort: number
+  authMethod: AuthMethod
   authToken: string
+  oidc: OidcAuth
+  authAdditionalScopes?: AuthScope[]
   remotePortMin: number
   remotePortMax: number
-  autoStart: boolean
+  subDomainHost: string
+  vhostHTTPPort: number
+  vhostHTTPSPort: number
+  transport: ServerTransport
   tunnels: Tunnel[]
+  visitors: Visitor[]
+  activeProfileId: string
+  profiles: ProfileSummary[]
+  autoStart: boolean
+  reconnect: ReconnectPolicy
+}
+
+type ProxyState = 'running' | 'error' | 'pending'
+
+// Live state of one proxy as reported by frpc's admin API
+interface ProxyStatus {
+  name: string
+  state: ProxyState
+  error?: string
+  remoteAddr?: string
+}
+
+interface ConfigIssue {
+  message: string
+  tunnel?: string
+  field?: string
 }
 
 interface FrpcStatus {
   running: boolean
   lastError: string | null
+  proxies: ProxyStatus[]
+  configIssues: ConfigIssue[]
+  reconnect: ReconnectState | null
+  diagnosis: FailureDiagnosis | null
+  localServices: Record<string, LocalServiceState>   // By tunnel id
+}
+
+// 'waiting' is a down service whose tunnel is held back until it comes up
+type LocalServiceState = 'up' | 'down' | 'waiting'
+
+type FailureKind = 'auth' | 'port-conflict' | 'network' | 'config' | 'binary' | 'crash-loop' | 'unknown'
+
+// Why frpc stopped on its own, and what to do about it
+interface FailureDiagnosis {
+  kind: FailureKind
+  summary: string
+  advice: string
+  retryable: boolean
+  detail?: string
+}
+
+// A scheduled reconnect; `at` is in epoch milliseconds
+interface ReconnectState {
+  attempt: number
+  maxAttempts: number
+  at: number
+}
+
+type LogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error'
+
+interface LogLine {
+  timestamp?: string
+  level?: LogLevel
+  source?: string
+  proxy?: string
+  message: string
+  gui?: boolean
+}
+
+type ConfigFormat = 'toml' | 'ini'
+
+type BinarySource = 'custom' | 'installed' | 'bundled' | 'system'
+
+interface FrpcBinaryInfo {
+  path: string
+  source: BinarySource
+  sha256: string
+  version: string | null
+  supported: boolean
+  configFormat: ConfigFormat
+  customTLSFirstByteDisabled: boolean   // frpc's default for disableCustomTLSFirstByte
+}
+
+type NativeConfigFormat = 'toml' | 'ini' | 'yaml' | 'json'
+
+interface SkippedEntry {
+  name: string
+  kind: 'proxy' | 'visitor'
+  reason: string
+}
+
+interface FrpcConfigImport {
+  fileName: string
+  format: NativeConfigFormat
+  settings: Pick<AppConfig, 'serverAddr' | 'serverPort' | 'authMethod' | 'authToken' | 'oidc' | 'authAdditionalScopes' | 'transport'>
+  tunnels: Omit<Tunnel, 'id'>[]
+  visitors: Omit<Visitor, 'id'>[]
+  skipped: SkippedEntry[]
+  warnings: string[]
+}
+
+interface ConnectionTestResult {
+  success: boolean
+  error?: string
+  detail?: string
+}
+
+// Where an end-to-end tunnel check failed: frps, the tunnel's public port, or the local side
+type ReachabilityStage = 'server' | 'remote' | 'local'
+
+interface ReachabilityResult extends ConnectionTestResult {
+  stage?: ReachabilityStage
 }
 
 interface ElectronAPI {
   getConfig: () => Promise<AppConfig>
   saveConfig: (config: Partial<AppConfig>) => Promise<void>
+  previewFrpcConfig: (config: Partial<AppConfig>, format: ConfigFormat, revealSecrets: boolean) => Promise<string>
+  addProfile: (name: string) => Promise<ProfileSummary>
+  renameProfile: (id: string, name: string) => Promise<void>
+  removeProfile: (id: string) => Promise<void>
+  switchProfile: (id: string) => Promise<void>
   addTunnel: (tunnel: Omit<Tunnel, 'id'>) => Promise<Tunnel>
   updateTunnel: (id: string, tunnel: Partial<Tunnel>) => Promise<Tunnel>
   removeTunnel: (id: string) => Promise<void>
-  startFrpc: () => Promise<boolean>
-  stopFrpc: () => Promise<boolean>
-  restartFrpc: () => Promise<boolean>
-  getFrpcStatus: () => Promise<FrpcStatus>
-  testConnection: (host: string, port: number) => Promise<{ success: boolean; error?: string }>
+  addVisitor: (visitor: Omit<Visitor, 'id'>) => Promise<Visitor>
+  updateVisitor: (id: string, visitor: Partial<Visitor>) => Promise<Visitor>
+  removeVisitor: (id: string) => Promise<void>
+  startFrpc: (instanceId: string) => Promise<boolean>
+  stopFrpc: (instanceId: string) => Promise<boolean>
+  restartFrpc: (instanceId: string) => Promise<boolean>
+  reloadFrpc: (instanceId: string) => Promise<{ success: boolean; error?: string }>
+  retryFrpc: (instanceId: string) => Promise<boolean>
+  setReconnectPolicy: (policy: ReconnectPolicy) => Promise<{ success: boolean; error?: string }>
+  getFrpcStatus: (instanceId: string) => Promise<FrpcStatus>
+  getFrpcStatuses: () => Promise<Record<string, FrpcStatus>>
+  getFrpcBinaryInfo: () => Promise<FrpcBinaryInfo | null>
+  setFrpcBinaryPath: (path: string) => Promise<{ success: boolean; error?: string }>
+  installFrpcArchive: () => Promise<{ success: boolean; error?: string }>
+  testConnection: (host: string, port: number, transport?: ServerTransport) => Promise<ConnectionTestResult>
+  checkTunnelReachability: (instanceId: string, tunnelId: string) => Promise<ReachabilityResult>
   exportConfig: () => Promise<{ success: boolean; error?: string }>
   importConfig: () => Promise<{ success: boolean; error?: string }>
+  previewFrpcImport: () => Promise<{ success: boolean; error?: string; preview?: FrpcConfigImport }>
+  applyFrpcImport: (name: string, imported: FrpcConfigImport) => Promise<ProfileSummary>
   setAutoStart: (enabled: boolean) => Promise<boolean>
   getAutoStart: () => Promise<boolean>
   openExternal: (url: string) => Promise<{ success: boolean; error?: string }>
-  onFrpcLog: (callback: (log: string) => void) => () => void
-  onFrpcStatus: (callback: (status: string) => void) => () => void
-  onFrpcError: (callback: (error: string) => void) => () => void
+  selectPath: (options: { title?: string; directory?: boolean }) => Promise<string | null>
+  onFrpcLog: (callback: (instanceId: string, log: LogLine) => void) => () => void
+  onFrpcStatus: (callback: (instanceId: string, status: string) => void) => () => void
+  onFrpcError: (callback: (instanceId: string, error: string) => void) => () => void
+  onFrpcProxies: (callback: (instanceId: string, proxies: ProxyStatus[]) => void) => () => void
+  onFrpcConfigIssues: (callback: (instanceId: string, issues: ConfigIssue[]) => void) => () => void
+  onFrpcReconnect: (callback: (instanceId: string, state: ReconnectState | null) => void) => () => void
+  onFrpcLocalServices: (callback: (instanceId: string, states: Record<string, LocalServiceState>) => void) => () => void
+  onTunnelReachability: (callback: (instanceId: string, tunnelId: string, result: ReachabilityResult) => void) => () => void
+  onFrpcDiagnosis: (callback: (instanceId: string, diagnosis: FailureDiagnosis | null) => void) => () => void
   onConfigReload: (callback: () => void) => () => void
 }
 